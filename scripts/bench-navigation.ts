@@ -0,0 +1,150 @@
+/**
+ * Compares per-tick ghost pathfinding cost: a BFS per decision against the
+ * cached distance fields in NavigationMap.
+ *
+ *   npm run bench:navigation
+ */
+import type { Dir, TilePos } from '../src/lib/games/pacmoon/types';
+import { DIR_ORDER, DIR_V } from '../src/lib/games/pacmoon/types';
+import { Rng } from '../src/lib/games/pacmoon/engine/rng';
+import { LEVELS, type LevelData } from '../src/lib/games/pacmoon/world/level-data';
+import { MapGrid } from '../src/lib/games/pacmoon/world/map-grid';
+import { generateMaze } from '../src/lib/games/pacmoon/world/maze-generator';
+import { NavigationMap } from '../src/lib/games/pacmoon/world/navigation';
+import { bfsNextDir } from '../src/lib/games/pacmoon/world/pathfinding';
+
+const GHOSTS = 4;
+const TICKS = 20000;
+/** Pacmoon crosses a tile roughly every eight ticks, so targets move that often. */
+const TICKS_PER_TARGET_STEP = 8;
+
+/** Worst case for BFS: an open field of pillars with no long corridors. */
+function pillarMaze(cols: number, rows: number): LevelData {
+	const maze = Array.from({ length: rows }, (_, row) =>
+		Array.from({ length: cols }, (_, col) => {
+			const edge = row === 0 || row === rows - 1 || col === 0 || col === cols - 1;
+			return edge || (row % 2 === 0 && col % 2 === 0) ? '#' : '.';
+		}).join('')
+	);
+	const corner = { col: 1, row: 1 };
+
+	return {
+		name: 'Pillars',
+		cols,
+		rows,
+		maze,
+		pacmoonSpawn: corner,
+		ghosts: [{ id: 'ra', type: 'ra', spawn: corner, scatter: corner }],
+		ghostHouse: { col: 1, row: 1, width: 1, height: 1, door: [] },
+		tunnels: []
+	};
+}
+
+/**
+ * A large corridor maze: a randomly carved spanning tree with some extra walls
+ * knocked out, so there are loops to choose between like in real levels.
+ * Cells sit on odd coordinates, so both sizes should be odd.
+ */
+function carvedMaze(cols: number, rows: number, seed: number): LevelData {
+	const rng = new Rng(seed);
+	const cells = cols * rows;
+	const open = new Uint8Array(cells);
+	const index = (col: number, row: number) => row * cols + col;
+	const inside = (col: number, row: number) => col > 0 && col < cols - 1 && row > 0 && row < rows - 1;
+
+	const stack: TilePos[] = [{ col: 1, row: 1 }];
+	open[index(1, 1)] = 1;
+	while (stack.length > 0) {
+		const { col, row } = stack[stack.length - 1];
+		const unvisited = DIR_ORDER.filter((dir) => {
+			const next = { col: col + DIR_V[dir].x * 2, row: row + DIR_V[dir].y * 2 };
+			return inside(next.col, next.row) && !open[index(next.col, next.row)];
+		});
+		if (unvisited.length === 0) {
+			stack.pop();
+			continue;
+		}
+		const dir = unvisited[rng.nextInt(unvisited.length)];
+		open[index(col + DIR_V[dir].x, row + DIR_V[dir].y)] = 1;
+		open[index(col + DIR_V[dir].x * 2, row + DIR_V[dir].y * 2)] = 1;
+		stack.push({ col: col + DIR_V[dir].x * 2, row: row + DIR_V[dir].y * 2 });
+	}
+
+	// Walls between two cells sit where exactly one coordinate is even.
+	for (let row = 1; row < rows - 1; row++) {
+		for (let col = 1; col < cols - 1; col++) {
+			if ((row + col) % 2 === 1 && rng.nextInt(8) === 0) open[index(col, row)] = 1;
+		}
+	}
+
+	const maze = Array.from({ length: rows }, (_, row) =>
+		Array.from({ length: cols }, (_, col) => (open[index(col, row)] ? '.' : '#')).join('')
+	);
+	const corner = { col: 1, row: 1 };
+
+	return {
+		name: 'Carved',
+		cols,
+		rows,
+		maze,
+		pacmoonSpawn: corner,
+		ghosts: [{ id: 'ra', type: 'ra', spawn: corner, scatter: corner }],
+		ghostHouse: { col: 1, row: 1, width: 1, height: 1, door: [] },
+		tunnels: []
+	};
+}
+
+/** Ghost and target positions wander the maze one tile at a time, like real play. */
+function wander(grid: MapGrid, pos: TilePos, rng: Rng): TilePos {
+	const dir = DIR_ORDER[rng.nextInt(DIR_ORDER.length)];
+	const next = { col: pos.col + DIR_V[dir].x, row: pos.row + DIR_V[dir].y };
+	return next.col >= 0 && next.col < grid.cols && grid.isWalkable(next) ? next : pos;
+}
+
+function randomOpenTile(grid: MapGrid, rng: Rng): TilePos {
+	for (;;) {
+		const pos = { col: rng.nextInt(grid.cols), row: rng.nextInt(grid.rows) };
+		if (grid.isWalkable(pos)) return pos;
+	}
+}
+
+type NextDir = (from: TilePos, to: TilePos, currentDir: Dir) => Dir;
+
+/** Average microseconds per tick with every ghost deciding once. */
+function timeTicks(grid: MapGrid, nextDir: NextDir): number {
+	const rng = new Rng(7);
+	const ghosts = Array.from({ length: GHOSTS }, () => randomOpenTile(grid, rng));
+	let target = randomOpenTile(grid, rng);
+
+	const start = performance.now();
+	for (let tick = 0; tick < TICKS; tick++) {
+		if (tick % TICKS_PER_TARGET_STEP === 0) target = wander(grid, target, rng);
+		for (let i = 0; i < GHOSTS; i++) {
+			nextDir(ghosts[i], target, 'none');
+			ghosts[i] = wander(grid, ghosts[i], rng);
+		}
+	}
+	return ((performance.now() - start) * 1000) / TICKS;
+}
+
+function bench(level: LevelData): void {
+	const grid = new MapGrid(level);
+
+	const bfs = timeTicks(grid, (from, to, currentDir) =>
+		bfsNextDir({ grid, from, to, currentDir, canUseDoor: false })
+	);
+
+	const buildStart = performance.now();
+	const navigation = new NavigationMap(grid);
+	const buildMs = performance.now() - buildStart;
+	const fields = timeTicks(grid, (from, to, currentDir) => navigation.nextDir(from, to, currentDir, false));
+
+	console.log(`${level.name} (${level.cols}x${level.rows})`);
+	console.log(`  BFS per decision     ${bfs.toFixed(2)} µs/tick`);
+	console.log(`  distance fields      ${fields.toFixed(2)} µs/tick (${(bfs / fields).toFixed(1)}x, setup ${buildMs.toFixed(2)} ms)`);
+}
+
+bench(LEVELS[0]);
+bench(generateMaze(1));
+bench(carvedMaze(121, 91, 1));
+bench(pillarMaze(80, 60));
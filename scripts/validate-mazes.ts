@@ -0,0 +1,50 @@
+/**
+ * Checks maze files for mistakes before they ship.
+ *
+ *   npm run validate:mazes                 # every bundled maze
+ *   npm run validate:mazes -- my.maze      # specific files
+ */
+import { readFileSync, readdirSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseMaze, MazeFormatError } from '../src/lib/games/pacmoon/world/maze-format';
+import { validateMaze, formatMazeIssue } from '../src/lib/games/pacmoon/world/maze-validator';
+
+const MAZE_DIR = fileURLToPath(new URL('../src/lib/games/pacmoon/world/mazes', import.meta.url));
+
+function listMazeFiles(): string[] {
+	return readdirSync(MAZE_DIR)
+		.filter((name) => name.endsWith('.maze'))
+		.sort()
+		.map((name) => join(MAZE_DIR, name));
+}
+
+function checkFile(path: string): boolean {
+	const source = basename(path);
+
+	try {
+		const level = parseMaze(readFileSync(path, 'utf8'), source);
+		const issues = validateMaze(level);
+		if (issues.length === 0) {
+			console.log(`ok    ${source} (${level.name}, ${level.cols}x${level.rows})`);
+			return true;
+		}
+
+		console.log(`FAIL  ${source}`);
+		for (const issue of issues) {
+			console.log(`      ${formatMazeIssue(issue)}`);
+		}
+		return false;
+	} catch (error) {
+		if (!(error instanceof MazeFormatError)) throw error;
+		console.log(`FAIL  ${error.message}`);
+		return false;
+	}
+}
+
+const files = process.argv.slice(2);
+const results = (files.length > 0 ? files : listMazeFiles()).map(checkFile);
+
+if (results.includes(false)) {
+	process.exitCode = 1;
+}
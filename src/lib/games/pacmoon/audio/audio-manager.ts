@@ -0,0 +1,314 @@
+import type { GamePhase } from '../types';
+import type { GameEventSource, Unsubscribe } from '../engine/events';
+import { loadAudioSettings, storeAudioSettings, type AudioSettings } from '../storage/audio-settings';
+
+/** Gestures that browsers accept for starting audio. */
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+/** Siren pitch on a full maze and on the last pellet. */
+const SIREN_LOW_HZ = 320;
+const SIREN_HIGH_HZ = 640;
+
+/** Short fades keep notes from clicking when they start and stop. */
+const FADE_S = 0.01;
+
+type LoopKind = 'siren' | 'frightened';
+
+interface Loop {
+  kind: LoopKind;
+  voice: OscillatorNode;
+  wobble: OscillatorNode;
+  gain: GainNode;
+}
+
+/**
+ * Every sound in the game, synthesized with oscillators and noise so there
+ * are no files to load. Effects follow the game's events; the siren
+ * (or the frightened loop while any ghost is blue) plays on the music bus
+ * whenever the game is in play.
+ *
+ * Browsers only allow audio after a user gesture, so the AudioContext is
+ * created on the first one seen after attach().
+ */
+export class AudioManager {
+  private settings: AudioSettings;
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfx: GainNode | null = null;
+  private music: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private loop: Loop | null = null;
+
+  private phase: GamePhase = 'start';
+  private frightened = false;
+  /** 0 on a full maze, 1 when the last pellet goes. */
+  private pelletProgress = 0;
+  private wakaHigh = false;
+
+  private unlockHandler = () => this.unlock();
+
+  constructor(settings: AudioSettings = loadAudioSettings()) {
+    this.settings = { ...settings };
+  }
+
+  attach(): void {
+    for (const type of UNLOCK_EVENTS) {
+      window.addEventListener(type, this.unlockHandler);
+    }
+  }
+
+  detach(): void {
+    this.removeUnlockListeners();
+    this.stopLoop();
+    void this.ctx?.close();
+    this.ctx = null;
+    this.master = this.sfx = this.music = null;
+  }
+
+  getSettings(): AudioSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(changes: Partial<AudioSettings>): AudioSettings {
+    this.settings = { ...this.settings, ...changes };
+    storeAudioSettings(this.settings);
+    this.applyVolumes();
+    return this.getSettings();
+  }
+
+  /** Plays along with a game's events until the returned function is called. */
+  connect(events: GameEventSource): Unsubscribe {
+    const subscriptions = [
+      events.on('phaseChanged', ({ phase }) => {
+        this.phase = phase;
+        this.updateLoop();
+      }),
+      events.on('pelletsChanged', ({ remaining, total }) => {
+        this.pelletProgress = total > 0 ? 1 - remaining / total : 0;
+        this.updateSirenPitch();
+      }),
+      events.on('frightenedChanged', ({ active }) => {
+        this.frightened = active;
+        this.updateLoop();
+      }),
+      events.on('pelletEaten', () => this.playWaka()),
+      events.on('powerPelletEaten', () => this.playPowerPellet()),
+      events.on('ghostEaten', () => this.playGhostEaten()),
+      events.on('bonusCollected', () => this.playBonus()),
+      events.on('extraLife', () => this.playExtraLife()),
+      events.on('lifeLost', () => this.playLifeLost()),
+      events.on('levelCleared', () => this.playLevelClear())
+    ];
+    return () => {
+      for (const unsubscribe of subscriptions) unsubscribe();
+    };
+  }
+
+  private unlock(): void {
+    if (!this.ctx) {
+      if (typeof AudioContext === 'undefined') {
+        this.removeUnlockListeners();
+        return;
+      }
+      const ctx = new AudioContext();
+      this.ctx = ctx;
+      this.master = ctx.createGain();
+      this.master.connect(ctx.destination);
+      this.sfx = ctx.createGain();
+      this.sfx.connect(this.master);
+      this.music = ctx.createGain();
+      this.music.connect(this.master);
+      this.noise = this.createNoise(ctx);
+      this.applyVolumes();
+      this.updateLoop();
+    }
+
+    if (this.ctx.state === 'suspended') {
+      void this.ctx.resume();
+    }
+    if (this.ctx.state !== 'suspended') {
+      this.removeUnlockListeners();
+    }
+  }
+
+  private removeUnlockListeners(): void {
+    for (const type of UNLOCK_EVENTS) {
+      window.removeEventListener(type, this.unlockHandler);
+    }
+  }
+
+  private applyVolumes(): void {
+    if (!this.ctx || !this.master || !this.sfx || !this.music) return;
+    const now = this.ctx.currentTime;
+    const { master, sfx, music, muted } = this.settings;
+    this.master.gain.setTargetAtTime(muted ? 0 : master, now, FADE_S);
+    this.sfx.gain.setTargetAtTime(sfx, now, FADE_S);
+    this.music.gain.setTargetAtTime(music, now, FADE_S);
+  }
+
+  private createNoise(ctx: AudioContext): AudioBuffer {
+    const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    return buffer;
+  }
+
+  private wantedLoop(): LoopKind | null {
+    if (this.phase !== 'playing') return null;
+    return this.frightened ? 'frightened' : 'siren';
+  }
+
+  private updateLoop(): void {
+    const kind = this.wantedLoop();
+    if (this.loop?.kind === kind) return;
+
+    this.stopLoop();
+    if (kind) this.startLoop(kind);
+  }
+
+  private startLoop(kind: LoopKind): void {
+    const { ctx, music } = this;
+    if (!ctx || !music) return;
+
+    const voice = ctx.createOscillator();
+    const wobble = ctx.createOscillator();
+    const depth = ctx.createGain();
+    const gain = ctx.createGain();
+
+    // The siren glides up and down; the frightened loop is a fast warble.
+    if (kind === 'siren') {
+      voice.type = 'triangle';
+      voice.frequency.value = this.sirenHz();
+      wobble.type = 'sine';
+      wobble.frequency.value = 2.5;
+      depth.gain.value = 80;
+    } else {
+      voice.type = 'square';
+      voice.frequency.value = 220;
+      wobble.type = 'sawtooth';
+      wobble.frequency.value = 7;
+      depth.gain.value = 120;
+    }
+
+    wobble.connect(depth);
+    depth.connect(voice.frequency);
+    voice.connect(gain);
+    gain.connect(music);
+
+    const now = ctx.currentTime;
+    const level = kind === 'siren' ? 0.12 : 0.06;
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(level, now + FADE_S * 5);
+    voice.start(now);
+    wobble.start(now);
+    this.loop = { kind, voice, wobble, gain };
+  }
+
+  private stopLoop(): void {
+    const loop = this.loop;
+    this.loop = null;
+    if (!loop || !this.ctx) return;
+
+    const now = this.ctx.currentTime;
+    loop.gain.gain.setTargetAtTime(0, now, FADE_S);
+    loop.voice.stop(now + FADE_S * 10);
+    loop.wobble.stop(now + FADE_S * 10);
+  }
+
+  private sirenHz(): number {
+    return SIREN_LOW_HZ + (SIREN_HIGH_HZ - SIREN_LOW_HZ) * this.pelletProgress;
+  }
+
+  private updateSirenPitch(): void {
+    if (this.loop?.kind !== 'siren' || !this.ctx) return;
+    this.loop.voice.frequency.setTargetAtTime(this.sirenHz(), this.ctx.currentTime, 0.2);
+  }
+
+  /** One oscillator note sliding from `fromHz` to `toHz`, `delay` seconds from now. */
+  private sweep(type: OscillatorType, fromHz: number, toHz: number, duration: number, volume: number, delay = 0): void {
+    const { ctx, sfx } = this;
+    if (!ctx || !sfx) return;
+
+    const start = ctx.currentTime + delay;
+    const end = start + duration;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(fromHz, start);
+    osc.frequency.exponentialRampToValueAtTime(toHz, end);
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(volume, start + FADE_S);
+    gain.gain.setValueAtTime(volume, end - FADE_S);
+    gain.gain.linearRampToValueAtTime(0, end);
+    osc.connect(gain);
+    gain.connect(sfx);
+    osc.start(start);
+    osc.stop(end);
+  }
+
+  /** A burst of filtered noise. */
+  private hiss(duration: number, volume: number, filterHz: number, delay = 0): void {
+    const { ctx, sfx, noise } = this;
+    if (!ctx || !sfx || !noise) return;
+
+    const start = ctx.currentTime + delay;
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+    source.buffer = noise;
+    filter.type = 'bandpass';
+    filter.frequency.value = filterHz;
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(sfx);
+    source.start(start);
+    source.stop(start + duration);
+  }
+
+  /** Alternates a falling and a rising chirp, the "wa" and "ka". */
+  private playWaka(): void {
+    this.wakaHigh = !this.wakaHigh;
+    if (this.wakaHigh) this.sweep('triangle', 520, 260, 0.09, 0.25);
+    else this.sweep('triangle', 260, 520, 0.09, 0.25);
+  }
+
+  private playPowerPellet(): void {
+    this.sweep('square', 150, 600, 0.2, 0.12);
+    this.sweep('square', 300, 900, 0.15, 0.08, 0.2);
+  }
+
+  private playGhostEaten(): void {
+    this.sweep('sawtooth', 200, 1600, 0.3, 0.12);
+    this.hiss(0.15, 0.2, 3000);
+  }
+
+  private playBonus(): void {
+    this.sweep('square', 660, 990, 0.08, 0.1);
+    this.sweep('square', 990, 1320, 0.12, 0.1, 0.08);
+  }
+
+  private playExtraLife(): void {
+    for (let i = 0; i < 6; i++) {
+      this.sweep('square', 1047, 1047, 0.07, 0.1, i * 0.12);
+    }
+  }
+
+  /** Falling warbles that wind down, then two closing pops. */
+  private playLifeLost(): void {
+    for (let i = 0; i < 9; i++) {
+      const top = 900 - i * 80;
+      this.sweep('triangle', top, top * 0.6, 0.14, 0.2, 0.4 + i * 0.13);
+    }
+    this.hiss(0.12, 0.3, 800, 1.65);
+    this.hiss(0.12, 0.3, 600, 1.85);
+  }
+
+  private playLevelClear(): void {
+    const notes = [523, 659, 784, 1047];
+    notes.forEach((hz, i) => this.sweep('square', hz, hz, 0.12, 0.1, i * 0.13));
+  }
+}
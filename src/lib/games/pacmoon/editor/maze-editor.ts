@@ -0,0 +1,267 @@
+import type { GhostName, Tile, TilePos } from '../types';
+import { CLASSIC_GHOSTS } from '../types';
+import type { LevelData } from '../world/level-data';
+import { ghostIds } from '../world/maze-format';
+
+export type EditorTool =
+	| { kind: 'tile'; tile: Tile }
+	| { kind: 'pacmoon' }
+	| { kind: 'spawn'; ghost: number }
+	| { kind: 'scatter'; ghost: number }
+	| { kind: 'house' };
+
+const TILE_CHARS: Record<Tile, string> = {
+	wall: '#',
+	pellet: '.',
+	power: 'o',
+	door: '-',
+	tunnel: 'T',
+	empty: ' '
+};
+
+const MAX_HISTORY = 200;
+
+interface EditorState {
+	name: string;
+	cols: number;
+	rows: number;
+	tiles: string[][];
+	pacmoonSpawn: TilePos;
+	/** Ghosts in release order; ids are assigned on export. */
+	ghosts: { type: GhostName; spawn: TilePos; scatter: TilePos }[];
+	house: { col: number; row: number; width: number; height: number };
+}
+
+function cloneState(state: EditorState): EditorState {
+	return structuredClone(state);
+}
+
+/**
+ * Editable copy of a maze with undo/redo. Door tiles and tunnel pairs are not
+ * edited directly: they are derived from the painted `-` and `T` tiles when
+ * the maze is exported.
+ */
+export class MazeEditor {
+	private state: EditorState;
+	private undoStack: EditorState[] = [];
+	private redoStack: EditorState[] = [];
+	private actionStart: EditorState | null = null;
+	private actionRecorded = false;
+
+	constructor(level: LevelData) {
+		const house = level.ghostHouse;
+		this.state = {
+			name: level.name,
+			cols: level.cols,
+			rows: level.rows,
+			tiles: Array.from({ length: level.rows }, (_, row) =>
+				Array.from({ length: level.cols }, (_, col) => level.maze[row]?.[col] ?? ' ')
+			),
+			pacmoonSpawn: { ...level.pacmoonSpawn },
+			ghosts: level.ghosts.map(({ type, spawn, scatter }) => ({
+				type,
+				spawn: { ...spawn },
+				scatter: { ...scatter }
+			})),
+			house: { col: house.col, row: house.row, width: house.width, height: house.height }
+		};
+	}
+
+	/** A walled box with every marker in a corner, ready to be drawn in. */
+	static blank(cols: number, rows: number): MazeEditor {
+		const maze = Array.from({ length: rows }, (_, row) =>
+			Array.from({ length: cols }, (_, col) =>
+				row === 0 || row === rows - 1 || col === 0 || col === cols - 1 ? '#' : ' '
+			).join('')
+		);
+		const corner = { col: 1, row: 1 };
+
+		return new MazeEditor({
+			name: 'Untitled',
+			cols,
+			rows,
+			maze,
+			pacmoonSpawn: { ...corner },
+			ghosts: CLASSIC_GHOSTS.map((type) => ({ id: type, type, spawn: { ...corner }, scatter: { ...corner } })),
+			ghostHouse: { col: 1, row: 1, width: 1, height: 1, door: [] },
+			tunnels: []
+		});
+	}
+
+	get cols(): number {
+		return this.state.cols;
+	}
+
+	get rows(): number {
+		return this.state.rows;
+	}
+
+	get name(): string {
+		return this.state.name;
+	}
+
+	inBounds(pos: TilePos): boolean {
+		return pos.col >= 0 && pos.col < this.state.cols && pos.row >= 0 && pos.row < this.state.rows;
+	}
+
+	/** Groups every change until endAction() into one undo step, e.g. a brush stroke. */
+	beginAction(): void {
+		this.actionStart = cloneState(this.state);
+		this.actionRecorded = false;
+	}
+
+	endAction(): void {
+		this.actionStart = null;
+	}
+
+	/** Saves the state a change is about to replace. */
+	private record(): void {
+		if (this.actionStart) {
+			if (this.actionRecorded) return;
+			this.undoStack.push(this.actionStart);
+			this.actionRecorded = true;
+		} else {
+			this.undoStack.push(cloneState(this.state));
+		}
+		if (this.undoStack.length > MAX_HISTORY) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	undo(): boolean {
+		const previous = this.undoStack.pop();
+		if (!previous) return false;
+		this.redoStack.push(this.state);
+		this.state = previous;
+		return true;
+	}
+
+	redo(): boolean {
+		const next = this.redoStack.pop();
+		if (!next) return false;
+		this.undoStack.push(this.state);
+		this.state = next;
+		return true;
+	}
+
+	setName(name: string): void {
+		if (name === this.state.name) return;
+		this.record();
+		this.state.name = name;
+	}
+
+	/** Applies a point tool at `pos`. Returns false when nothing changed. */
+	apply(tool: EditorTool, pos: TilePos): boolean {
+		if (!this.inBounds(pos)) return false;
+
+		switch (tool.kind) {
+			case 'tile': {
+				const char = TILE_CHARS[tool.tile];
+				if (this.state.tiles[pos.row][pos.col] === char) return false;
+				this.record();
+				this.state.tiles[pos.row][pos.col] = char;
+				return true;
+			}
+			case 'pacmoon':
+				return this.moveMarker(this.state.pacmoonSpawn, pos);
+			case 'spawn':
+			case 'scatter': {
+				const ghost = this.state.ghosts[tool.ghost];
+				if (!ghost) return false;
+				return this.moveMarker(tool.kind === 'spawn' ? ghost.spawn : ghost.scatter, pos);
+			}
+			case 'house':
+				return this.setHouse(pos, pos);
+		}
+	}
+
+	/** Sets the ghost-house interior to the rectangle spanned by two corners. */
+	setHouse(a: TilePos, b: TilePos): boolean {
+		if (!this.inBounds(a) || !this.inBounds(b)) return false;
+		const house = {
+			col: Math.min(a.col, b.col),
+			row: Math.min(a.row, b.row),
+			width: Math.abs(a.col - b.col) + 1,
+			height: Math.abs(a.row - b.row) + 1
+		};
+		const current = this.state.house;
+		if (
+			current.col === house.col &&
+			current.row === house.row &&
+			current.width === house.width &&
+			current.height === house.height
+		) {
+			return false;
+		}
+		this.record();
+		this.state.house = house;
+		return true;
+	}
+
+	/** Adds a ghost in the house's top-left corner, scattering to the grid's. */
+	addGhost(type: GhostName): void {
+		this.record();
+		const { house } = this.state;
+		this.state.ghosts.push({
+			type,
+			spawn: { col: house.col, row: house.row },
+			scatter: { col: 0, row: 0 }
+		});
+	}
+
+	removeGhost(index: number): boolean {
+		if (!this.state.ghosts[index]) return false;
+		this.record();
+		this.state.ghosts.splice(index, 1);
+		return true;
+	}
+
+	private moveMarker(marker: TilePos, pos: TilePos): boolean {
+		if (marker.col === pos.col && marker.row === pos.row) return false;
+		this.record();
+		marker.col = pos.col;
+		marker.row = pos.row;
+		return true;
+	}
+
+	toLevelData(): LevelData {
+		const { tiles, cols, rows } = this.state;
+		const ids = ghostIds(this.state.ghosts.map((ghost) => ghost.type));
+		const door: TilePos[] = [];
+		const tunnels: [TilePos, TilePos][] = [];
+
+		tiles.forEach((line, row) => {
+			line.forEach((char, col) => {
+				if (char === '-') door.push({ col, row });
+			});
+			if (line[0] === 'T' && line[cols - 1] === 'T') {
+				tunnels.push([{ col: 0, row }, { col: cols - 1, row }]);
+			}
+		});
+
+		return {
+			name: this.state.name,
+			cols,
+			rows,
+			maze: tiles.map((line) => line.join('')),
+			pacmoonSpawn: { ...this.state.pacmoonSpawn },
+			ghosts: this.state.ghosts.map((ghost, i) => ({
+				id: ids[i],
+				type: ghost.type,
+				spawn: { ...ghost.spawn },
+				scatter: { ...ghost.scatter }
+			})),
+			ghostHouse: { ...this.state.house, door },
+			tunnels
+		};
+	}
+}
@@ -0,0 +1,77 @@
+import type { Vec2 } from '../types';
+import { BASE_TILE } from './config';
+
+const TS = BASE_TILE;
+
+/** Where something was at the start and end of one step. */
+export interface Sweep {
+	from: Vec2;
+	to: Vec2;
+}
+
+/** A touch found during a step; `time` runs from 0 (step start) to 1 (step end). */
+export interface CollisionEvent<T> {
+	target: T;
+	time: number;
+}
+
+/** Shortest signed x distance, allowing for the tunnel wrap. */
+function wrapDx(dx: number, worldWidth: number): number {
+	if (dx > worldWidth / 2) return dx - worldWidth;
+	if (dx < -worldWidth / 2) return dx + worldWidth;
+	return dx;
+}
+
+/** Start offset of `b` from `a` and its velocity relative to `a`, per step. */
+function relativeMotion(a: Sweep, b: Sweep, worldWidth: number): { r: Vec2; v: Vec2 } {
+	const va = { x: wrapDx(a.to.x - a.from.x, worldWidth), y: a.to.y - a.from.y };
+	const vb = { x: wrapDx(b.to.x - b.from.x, worldWidth), y: b.to.y - b.from.y };
+	return {
+		r: { x: wrapDx(b.from.x - a.from.x, worldWidth), y: b.from.y - a.from.y },
+		v: { x: vb.x - va.x, y: vb.y - va.y }
+	};
+}
+
+/**
+ * The first time in the step at which `a` and `b` come within `radius` of
+ * each other, or null. Both are taken to move in straight lines, which is
+ * exact within a step unless one of them turned at a tile center.
+ */
+export function sweptContactTime(a: Sweep, b: Sweep, radius: number, worldWidth: number): number | null {
+	const { r, v } = relativeMotion(a, b, worldWidth);
+
+	const c = r.x * r.x + r.y * r.y - radius * radius;
+	if (c < 0) return 0;
+
+	const qa = v.x * v.x + v.y * v.y;
+	if (qa === 0) return null;
+
+	const qb = 2 * (r.x * v.x + r.y * v.y);
+	const disc = qb * qb - 4 * qa * c;
+	if (disc < 0) return null;
+
+	const t = (-qb - Math.sqrt(disc)) / (2 * qa);
+	return t >= 0 && t <= 1 ? t : null;
+}
+
+/** When in the step `a` and `b` are closest. */
+export function closestApproachTime(a: Sweep, b: Sweep, worldWidth: number): number {
+	const { r, v } = relativeMotion(a, b, worldWidth);
+	const speedSq = v.x * v.x + v.y * v.y;
+	if (speedSq === 0) return 0;
+	return Math.max(0, Math.min(1, -(r.x * v.x + r.y * v.y) / speedSq));
+}
+
+function tileKey(pos: Vec2): string {
+	return `${Math.floor(pos.x / TS)},${Math.floor(pos.y / TS)}`;
+}
+
+/**
+ * True when `a` and `b` traded tiles during the step. They must have passed
+ * through each other, even if a turn took them round the swept test.
+ */
+export function swappedTiles(a: Sweep, b: Sweep): boolean {
+	const aFrom = tileKey(a.from);
+	const bFrom = tileKey(b.from);
+	return aFrom !== bFrom && aFrom === tileKey(b.to) && bFrom === tileKey(a.to);
+}
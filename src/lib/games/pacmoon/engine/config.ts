@@ -1,24 +1,21 @@
-export const COLS = 40;
-export const ROWS = 25;
+// Grid size comes from each maze; see world/mazes/.
 export const BASE_TILE = 16;
-export const WORLD_W = COLS * BASE_TILE;
-export const WORLD_H = ROWS * BASE_TILE;
 
 export const FRAME_MS = 1000 / 60;
 
-export const PACMOON_SPEED = 80;
-export const GHOST_SPEED = 75;
-export const GHOST_FRIGHTENED_SPEED = 40;
+// Per-level speeds live in the difficulty table (difficulty.ts).
 export const GHOST_EATEN_SPEED = 160;
-export const GHOST_TUNNEL_SPEED = 40;
+export const GHOST_BOB_PX = 3;
 
 export const PACMOON_RADIUS = 7;
 export const GHOST_RADIUS = 7;
 export const COLLISION_DIST_PX = 6;
 
-export const CENTER_EPS_PX = 0.5;
+/** How far before or after a tile center Pacmoon may turn, cutting the corner. */
 export const CORNER_CUT_EPS_PX = 4;
 export const SNAP_EPS_PX = 0.1;
+/** How long a pressed turn waits to become possible before it is dropped. */
+export const TURN_BUFFER_MS = 300;
 
 export const MOUTH_OPEN_MAX_DEG = 45;
 export const MOUTH_OPEN_MIN_DEG = 5;
@@ -33,4 +30,14 @@ export const PELLET_SCORE = 10;
 export const POWER_PELLET_SCORE = 50;
 export const GHOST_BASE_SCORE = 200;
 
+export const BONUS_DURATION_MS = 9500;
+export const SCORE_POPUP_MS = 1500;
+
 export const INITIAL_LIVES = 3;
+/** One extra life, awarded when the score first reaches this. */
+export const EXTRA_LIFE_SCORE = 10000;
+
+export const READY_DURATION_MS = 2000;
+export const DEATH_ANIMATION_MS = 1500;
+export const LEVEL_CLEAR_DURATION_MS = 2000;
+export const LEVEL_FLASH_PERIOD_MS = 250;
@@ -0,0 +1,150 @@
+import type { ArtifactKind, ElroyStage, GhostDifficulty } from '../types';
+import type { SteeringName } from '../entities/steering';
+
+/** One "Cruise Elroy" stage: Ra's speed once this few pellets remain. */
+export interface ElroyThreshold {
+  pelletsRemaining: number;
+  speedPct: number;
+}
+
+export interface LevelDifficulty {
+  /** Logical px/s that the percentages below are taken of; 100% in the arcade tables. */
+  baseSpeed: number;
+  pacmoonSpeedPct: number;
+  /** Pacmoon while crossing a tile whose pellet it has just eaten. */
+  pacmoonEatingSpeedPct: number;
+  ghostSpeedPct: number;
+  ghostTunnelSpeedPct: number;
+  ghostFrightenedSpeedPct: number;
+  /** Waiting, leaving and bobbing inside the ghost house. */
+  ghostHouseSpeedPct: number;
+  /** Ra's two anger stages, first stage first. */
+  elroy: readonly [ElroyThreshold, ElroyThreshold];
+  /** How long ghosts stay frightened; 0 means they only reverse. */
+  frightenedMs: number;
+  /** Alternating scatter/chase durations in ms, starting with scatter. */
+  modeSchedule: readonly number[];
+  /** The level's bonus item and its points. */
+  bonusArtifact: ArtifactKind;
+  bonusScore: number;
+  /** Pellets eaten before each appearance of the bonus item. */
+  bonusPellets: readonly number[];
+  /** Pellets each ghost waits for in the house, by release order; extra ghosts use the last. */
+  houseDotLimits: readonly number[];
+  /** A waiting ghost is let out when Pacmoon eats nothing for this long. */
+  houseIdleMs: number;
+  /** How chasing and scattering ghosts pick turns; see entities/steering.ts. */
+  steering: SteeringName;
+  /** For `mixed` steering, the chance each turn follows the shortest path. */
+  pursuitWeight: number;
+}
+
+const SCHEDULE_LEVEL_1 = [7000, 20000, 7000, 20000, 5000, 20000, 5000, Infinity];
+const SCHEDULE_LEVEL_2 = [7000, 20000, 7000, 20000, 5000, 1033000, 17, Infinity];
+const SCHEDULE_LEVEL_5 = [5000, 20000, 5000, 20000, 5000, 1037000, 17, Infinity];
+
+const SPEEDS_LEVEL_1 = {
+  baseSpeed: 100,
+  pacmoonSpeedPct: 80,
+  pacmoonEatingSpeedPct: 71,
+  ghostSpeedPct: 75,
+  ghostTunnelSpeedPct: 40,
+  ghostFrightenedSpeedPct: 50,
+  ghostHouseSpeedPct: 40
+};
+const SPEEDS_LEVEL_2 = {
+  baseSpeed: 100,
+  pacmoonSpeedPct: 90,
+  pacmoonEatingSpeedPct: 79,
+  ghostSpeedPct: 85,
+  ghostTunnelSpeedPct: 45,
+  ghostFrightenedSpeedPct: 55,
+  ghostHouseSpeedPct: 45
+};
+const SPEEDS_LEVEL_5 = {
+  baseSpeed: 100,
+  pacmoonSpeedPct: 100,
+  pacmoonEatingSpeedPct: 87,
+  ghostSpeedPct: 95,
+  ghostTunnelSpeedPct: 50,
+  ghostFrightenedSpeedPct: 60,
+  ghostHouseSpeedPct: 50
+};
+
+/** As in the arcade, the second stage starts at half the pellets and is 5% faster. */
+function elroy(pelletsRemaining: number, speedPct: number): { elroy: LevelDifficulty['elroy'] } {
+  return {
+    elroy: [
+      { pelletsRemaining, speedPct },
+      { pelletsRemaining: pelletsRemaining / 2, speedPct: speedPct + 5 }
+    ]
+  };
+}
+
+// As in the arcade, the bonus item shows up after 70 and 170 pellets.
+const BONUS_PELLETS = [70, 170];
+
+function bonus(
+  bonusArtifact: ArtifactKind,
+  bonusScore: number
+): Pick<LevelDifficulty, 'bonusArtifact' | 'bonusScore' | 'bonusPellets'> {
+  return { bonusArtifact, bonusScore, bonusPellets: BONUS_PELLETS };
+}
+
+const HOUSE_LEVEL_1 = { houseDotLimits: [0, 0, 30, 60], houseIdleMs: 4000 };
+const HOUSE_LEVEL_2 = { houseDotLimits: [0, 0, 0, 50], houseIdleMs: 4000 };
+const HOUSE_LEVEL_3 = { houseDotLimits: [0], houseIdleMs: 4000 };
+const HOUSE_LEVEL_5 = { houseDotLimits: [0], houseIdleMs: 3000 };
+
+/** The steering each ghost difficulty picks for every level. */
+const GHOST_STEERING: Record<GhostDifficulty, Pick<LevelDifficulty, 'steering' | 'pursuitWeight'>> = {
+  arcade: { steering: 'arcade', pursuitWeight: 0 },
+  cunning: { steering: 'mixed', pursuitWeight: 0.5 },
+  relentless: { steering: 'pursuit', pursuitWeight: 1 }
+};
+
+/**
+ * One row per level, after the arcade tables. Levels past the end reuse the
+ * last row. Steering comes from the player's ghost difficulty instead.
+ */
+export const DIFFICULTY_TABLE: readonly Omit<LevelDifficulty, 'steering' | 'pursuitWeight'>[] = [
+  { ...SPEEDS_LEVEL_1, ...HOUSE_LEVEL_1, ...elroy(20, 80), frightenedMs: 6000, modeSchedule: SCHEDULE_LEVEL_1, ...bonus('moon-rock', 100) },
+  { ...SPEEDS_LEVEL_2, ...HOUSE_LEVEL_2, ...elroy(30, 90), frightenedMs: 5000, modeSchedule: SCHEDULE_LEVEL_2, ...bonus('scarab', 300) },
+  { ...SPEEDS_LEVEL_2, ...HOUSE_LEVEL_3, ...elroy(40, 90), frightenedMs: 4000, modeSchedule: SCHEDULE_LEVEL_2, ...bonus('scarab', 500) },
+  { ...SPEEDS_LEVEL_2, ...HOUSE_LEVEL_3, ...elroy(40, 90), frightenedMs: 3000, modeSchedule: SCHEDULE_LEVEL_2, ...bonus('scarab', 500) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(40, 100), frightenedMs: 2000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('ankh', 700) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(50, 100), frightenedMs: 5000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('ankh', 700) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(50, 100), frightenedMs: 2000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('ankh', 1000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(50, 100), frightenedMs: 2000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('ankh', 1000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(60, 100), frightenedMs: 1000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 2000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(60, 100), frightenedMs: 5000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 2000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(60, 100), frightenedMs: 2000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 3000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(80, 100), frightenedMs: 1000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 3000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(80, 100), frightenedMs: 1000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 5000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(80, 100), frightenedMs: 3000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 5000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(100, 100), frightenedMs: 1000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 5000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(100, 100), frightenedMs: 1000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 5000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(100, 100), frightenedMs: 0, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 5000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(100, 100), frightenedMs: 1000, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 5000) },
+  { ...SPEEDS_LEVEL_5, ...HOUSE_LEVEL_5, ...elroy(120, 100), frightenedMs: 0, modeSchedule: SCHEDULE_LEVEL_5, ...bonus('eye-of-horus', 5000) }
+];
+
+export function getDifficulty(level: number, ghostDifficulty: GhostDifficulty): LevelDifficulty {
+  const index = Math.max(0, Math.min(DIFFICULTY_TABLE.length - 1, level - 1));
+  // Saves and replays are read from outside, so the setting may be anything.
+  const steering = GHOST_STEERING[ghostDifficulty];
+  if (!steering) throw new Error(`Unknown ghost difficulty ${ghostDifficulty}`);
+  return { ...DIFFICULTY_TABLE[index], ...steering };
+}
+
+export function levelSpeed(difficulty: LevelDifficulty, pct: number): number {
+  return (difficulty.baseSpeed * pct) / 100;
+}
+
+/** Ra's anger stage for the pellets left in the maze. */
+export function getElroyStage(difficulty: LevelDifficulty, pelletsRemaining: number): ElroyStage {
+  const [first, second] = difficulty.elroy;
+  if (pelletsRemaining <= second.pelletsRemaining) return 2;
+  if (pelletsRemaining <= first.pelletsRemaining) return 1;
+  return 0;
+}
@@ -0,0 +1,16 @@
+import type { GameEvent, GameEventSource, Unsubscribe } from './events';
+
+function describe(event: GameEvent): Record<string, unknown> {
+	const { type: _type, tick: _tick, pacmoonPos, ...data } = event;
+	return { ...data, pacmoon: `${pacmoonPos.x.toFixed(1)},${pacmoonPos.y.toFixed(1)}` };
+}
+
+/**
+ * Writes every game event to the console, for debugging. Off unless asked
+ * for; returns the unsubscribe.
+ */
+export function logGameEvents(source: GameEventSource, log: (...args: unknown[]) => void = console.debug): Unsubscribe {
+	return source.onAny((event) => {
+		log(`[pacmoon] ${event.tick} ${event.type}`, describe(event));
+	});
+}
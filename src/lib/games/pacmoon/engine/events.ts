@@ -0,0 +1,86 @@
+import type { ArtifactKind, GameMode, GamePhase, GhostMode, GhostName, TilePos, Vec2 } from '../types';
+
+/**
+ * What the simulation reports as it happens, keyed by event name. Every
+ * event also carries the tick it happened on and where Pacmoon was; see
+ * GameEvent.
+ */
+export interface GameEventMap {
+	phaseChanged: { phase: GamePhase; from: GamePhase };
+	pelletEaten: { tile: TilePos; pelletsRemaining: number };
+	powerPelletEaten: { tile: TilePos; pelletsRemaining: number; frightenedMs: number };
+	/** Sent whenever the count changes and when a level or save is loaded. */
+	pelletsChanged: { remaining: number; total: number };
+	/** `combo` counts ghosts eaten on the current power pellet, from 1. */
+	ghostEaten: { ghost: GhostName; ghostPos: Vec2; combo: number; points: number };
+	ghostModeChanged: { ghost: GhostName; ghostPos: Vec2; mode: GhostMode; from: GhostMode };
+	/** Whether any ghost is frightened; sent when that changes and when a game or save is loaded. */
+	frightenedChanged: { active: boolean };
+	bonusCollected: { kind: ArtifactKind; itemPos: Vec2; points: number };
+	extraLife: { lives: number; score: number };
+	/** `ghost` is the one that caught Pacmoon. */
+	lifeLost: { ghost: GhostName; ghostPos: Vec2; livesLeft: number };
+	levelCleared: { level: number; mode: GameMode };
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEvent<K extends GameEventType = GameEventType> = {
+	[T in K]: GameEventMap[T] & { type: T; tick: number; pacmoonPos: Vec2 };
+}[K];
+
+export type GameEventListener<K extends GameEventType> = (event: GameEvent<K>) => void;
+
+/** Removes the listener it was returned for. */
+export type Unsubscribe = () => void;
+
+/** The subscribe half of GameEventEmitter, for code that only listens. */
+export interface GameEventSource {
+	on<K extends GameEventType>(type: K, listener: GameEventListener<K>): Unsubscribe;
+	onAny(listener: (event: GameEvent) => void): Unsubscribe;
+}
+
+type AnyListener = (event: GameEvent) => void;
+
+/**
+ * Synchronous, typed pub/sub for game events. Listeners run in the order they
+ * subscribed, inside the simulation tick, so they must not change the game.
+ */
+export class GameEventEmitter implements GameEventSource {
+	private listeners = new Map<GameEventType, Set<AnyListener>>();
+	private anyListeners = new Set<AnyListener>();
+
+	on<K extends GameEventType>(type: K, listener: GameEventListener<K>): Unsubscribe {
+		let set = this.listeners.get(type);
+		if (!set) {
+			set = new Set();
+			this.listeners.set(type, set);
+		}
+		// Only ever called with events of `type`, so the widening is safe.
+		const entry = listener as unknown as AnyListener;
+		set.add(entry);
+		return () => {
+			set.delete(entry);
+		};
+	}
+
+	onAny(listener: AnyListener): Unsubscribe {
+		this.anyListeners.add(listener);
+		return () => {
+			this.anyListeners.delete(listener);
+		};
+	}
+
+	/** Typed per event, so the payload has to match `type`. */
+	emit<K extends GameEventType>(event: GameEvent<K>): void {
+		// GameEvent<K> is one member of the GameEvent union; TypeScript can't
+		// see that for a generic K.
+		const anyEvent = event as GameEvent;
+		for (const listener of this.listeners.get(event.type) ?? []) {
+			listener(anyEvent);
+		}
+		for (const listener of this.anyListeners) {
+			listener(anyEvent);
+		}
+	}
+}
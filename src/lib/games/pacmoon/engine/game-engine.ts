@@ -1,500 +1,312 @@
-import type { HudState, GamePhase, Dir, Vec2, TilePos, GhostName } from '../types';
-import {
-	FRAME_MS,
-	WORLD_W,
-	BASE_TILE,
-	PACMOON_SPEED,
-	PELLET_SCORE,
-	POWER_PELLET_SCORE,
-	INITIAL_LIVES,
-	CENTER_EPS_PX,
-	COLLISION_DIST_PX,
-	GHOST_BASE_SCORE
-} from './config';
-import { computeViewport, beginFrame, type Viewport } from './viewport';
-import { MapGrid } from '../world/map-grid';
-import { getLevelData, type LevelData } from '../world/level-data';
-import { drawMaze, drawPellets, drawPacmoon, drawReadyText, drawGhost } from '../render/renderer';
-import { DIR_V } from '../types';
-import { Ghost } from '../entities/ghost';
-import { updateGhostTarget, chooseGhostDirection, GHOST_HOUSE_TARGET } from '../entities/ghost-ai';
-
-const TS = BASE_TILE;
-
-const GHOST_NAMES: GhostName[] = ['ra', 'bastet', 'thoth', 'anubis'];
-
-function getFrightenedDurationMs(level: number): number {
-	if (level === 1) return 6000;
-	if (level === 2) return 5000;
-	if (level === 3) return 4000;
-	if (level === 4) return 3000;
-	return 2000;
-}
+import type { HudState, GamePhase, GameIntent, GameMode, GhostDifficulty, Dir, TilePos, Vec2 } from '../types';
+import { FRAME_MS } from './config';
+import { computeViewport, beginFrame, cssToWorld, type Viewport } from './viewport';
+import { Simulation } from './simulation';
+import { ReplayRecorder, type ReplayFile } from './replay';
+import { SnapshotError, type SimulationSnapshot } from './snapshot';
+import type { GameEventListener, GameEventSource, GameEventType, Unsubscribe } from './events';
+import { logGameEvents } from './event-logger';
+import { drawScene } from '../render/renderer';
+import type { LevelData } from '../world/level-data';
+import { dailySeed } from '../world/maze-generator';
+import { dirToNeighbor, findPath } from '../world/pathfinding';
 
 export interface GameCallbacks {
 	onHudUpdate: (hud: HudState) => void;
 }
 
+export interface GameEngineOptions {
+	seed?: number;
+	mode?: GameMode;
+	ghostDifficulty?: GhostDifficulty;
+	/** Plays this maze on every level instead of the bundled rotation. */
+	levelData?: LevelData;
+	/** Writes every gameplay event to the console. */
+	logEvents?: boolean;
+}
+
+function createSeed(mode: GameMode = 'classic'): number {
+	return mode === 'daily' ? dailySeed() : Date.now() % 2147483647;
+}
+
 export class GameEngine {
 	private canvas: HTMLCanvasElement;
 	private ctx: CanvasRenderingContext2D;
 	private viewport: Viewport;
+	private cssWidth: number;
+	private cssHeight: number;
 	private callbacks: GameCallbacks;
+	private simulation: Simulation;
+	private recorder: ReplayRecorder;
+	/** Tiles left to walk on the tap-to-move route; empty when there is none. */
+	private route: TilePos[] = [];
 
 	private animationId: number | null = null;
 	private lastTime = 0;
 	private accumulator = 0;
-	private gameTimeMs = 0;
-
-	private levelData: LevelData;
-	private grid: MapGrid;
-	private pacmoonPos: Vec2;
-	private pacmoonDir: Dir = 'none';
-	private desiredDir: Dir = 'none';
-
-	private ghosts: Ghost[] = [];
-	private ghostsEatenCombo = 0;
-	private modeTimer = 0;
-	private modeIndex = 0;
-	private globalMode: 'scatter' | 'chase' = 'scatter';
-
-	private hud: HudState;
-	private powerPelletBlink = true;
-	private blinkTimer = 0;
 
-	constructor(canvas: HTMLCanvasElement, callbacks: GameCallbacks) {
+	constructor(canvas: HTMLCanvasElement, callbacks: GameCallbacks, options: GameEngineOptions = {}) {
 		this.canvas = canvas;
 		this.ctx = canvas.getContext('2d', { alpha: false })!;
 		this.ctx.imageSmoothingEnabled = false;
 		this.callbacks = callbacks;
 
-		this.viewport = computeViewport(canvas.clientWidth, canvas.clientHeight);
+		const mode = options.mode ?? 'classic';
+		this.simulation = new Simulation({
+			seed: options.seed ?? createSeed(mode),
+			mode,
+			ghostDifficulty: options.ghostDifficulty,
+			levelData: options.levelData,
+			onHudUpdate: (hud) => this.callbacks.onHudUpdate(hud)
+		});
+		// A new life or level starts somewhere else, so an old route no longer fits.
+		this.simulation.events.on('lifeLost', () => this.cancelRoute());
+		this.simulation.events.on('levelCleared', () => this.cancelRoute());
+		if (options.logEvents) {
+			logGameEvents(this.simulation.events);
+		}
+
+		this.cssWidth = canvas.clientWidth;
+		this.cssHeight = canvas.clientHeight;
+		this.viewport = this.fitViewport();
+		this.recorder = this.createRecorder();
+	}
 
-		this.levelData = getLevelData(1);
-		this.grid = new MapGrid(this.levelData);
-		this.pacmoonPos = this.grid.tileToPos(this.levelData.pacmoonSpawn);
-		this.initGhosts();
+	private createRecorder(start?: SimulationSnapshot): ReplayRecorder {
+		return new ReplayRecorder(
+			this.simulation.getSeed(),
+			this.simulation.getMode(),
+			this.simulation.getGhostDifficulty(),
+			start
+		);
+	}
 
-		this.hud = {
-			score: 0,
-			lives: INITIAL_LIVES,
-			level: 1,
-			phase: 'start'
-		};
+	getSimulation(): Simulation {
+		return this.simulation;
+	}
 
-		this.emitHud();
+	/** Gameplay events from the simulation; see GameEventMap. */
+	get events(): GameEventSource {
+		return this.simulation.events;
 	}
 
-	private initGhosts(): void {
-		this.ghosts = [];
-		for (const name of GHOST_NAMES) {
-			const spawn = this.levelData.ghostSpawns[name];
-			const scatter = this.levelData.scatterTargets[name];
-			const pos = this.grid.tileToPos(spawn);
-			const ghost = new Ghost(name, pos, scatter);
-			this.ghosts.push(ghost);
-		}
+	on<K extends GameEventType>(type: K, listener: GameEventListener<K>): Unsubscribe {
+		return this.simulation.events.on(type, listener);
 	}
 
 	resize(width: number, height: number): void {
-		this.viewport = computeViewport(width, height);
+		this.cssWidth = width;
+		this.cssHeight = height;
+		this.viewport = this.fitViewport();
 		this.ctx.imageSmoothingEnabled = false;
 	}
 
-	setDesiredDirection(dir: Dir): void {
-		this.desiredDir = dir;
+	private fitViewport(): Viewport {
+		const grid = this.simulation.getGrid();
+		return computeViewport(this.cssWidth, this.cssHeight, grid.width, grid.height);
 	}
 
-	setPhase(phase: GamePhase): void {
-		this.hud.phase = phase;
-		this.emitHud();
+	canPacmoonMove(dir: Dir): boolean {
+		return this.simulation.canPacmoonMove(dir);
 	}
 
-	getPhase(): GamePhase {
-		return this.hud.phase;
+	/** A direction from the player, which also cancels any tap-to-move route. */
+	setDesiredDirection(dir: Dir): void {
+		this.cancelRoute();
+		this.steer(dir);
 	}
 
-	start(): void {
-		if (this.animationId !== null) return;
-		this.lastTime = performance.now();
-		this.accumulator = 0;
-		this.loop(this.lastTime);
+	private steer(dir: Dir): void {
+		this.recorder.recordDirection(this.simulation.getTick(), dir);
+		this.simulation.setDesiredDirection(dir);
 	}
 
-	stop(): void {
-		if (this.animationId !== null) {
-			cancelAnimationFrame(this.animationId);
-			this.animationId = null;
-		}
+	/**
+	 * Sends Pacmoon along the shortest walkable route to the tile under
+	 * `point`, given in CSS px from the canvas's top left. Returns false, and
+	 * keeps any current route, when the point is off the maze or the tile
+	 * cannot be reached. Only works while a game is in play.
+	 */
+	navigateTo(point: Vec2): boolean {
+		const phase = this.simulation.getPhase();
+		if (phase !== 'playing' && phase !== 'ready') return false;
+
+		const grid = this.simulation.getGrid();
+		const target = grid.posToTile(cssToWorld(point.x, point.y, this.getViewport()));
+		if (target.col < 0 || target.col >= grid.cols || target.row < 0 || target.row >= grid.rows) return false;
+
+		const route = findPath(grid, grid.posToTile(this.simulation.getPacmoonPos()), target);
+		if (!route || route.length === 0) return false;
+		this.route = route;
+		return true;
 	}
 
-	reset(): void {
-		this.stop();
-
-		this.levelData = getLevelData(1);
-		this.grid = new MapGrid(this.levelData);
-		this.pacmoonPos = this.grid.tileToPos(this.levelData.pacmoonSpawn);
-		this.pacmoonDir = 'none';
-		this.desiredDir = 'none';
-		this.gameTimeMs = 0;
-		this.modeTimer = 0;
-		this.modeIndex = 0;
-		this.globalMode = 'scatter';
-		this.ghostsEatenCombo = 0;
-
-		this.initGhosts();
-
-		this.hud = {
-			score: 0,
-			lives: INITIAL_LIVES,
-			level: 1,
-			phase: 'start'
-		};
-
-		this.emitHud();
-		this.render();
+	cancelRoute(): void {
+		this.route = [];
 	}
 
-	private loop = (time: number): void => {
-		let dt = time - this.lastTime;
-		this.lastTime = time;
-
-		dt = Math.min(dt, 100);
-
-		if (this.hud.phase === 'playing') {
-			this.accumulator = Math.min(this.accumulator + dt, FRAME_MS * 5);
-
-			while (this.accumulator >= FRAME_MS) {
-				this.update(FRAME_MS);
-				this.accumulator -= FRAME_MS;
-			}
-		}
-
-		this.render();
-		this.animationId = requestAnimationFrame(this.loop);
-	};
-
-	private update(dtMs: number): void {
-		this.gameTimeMs += dtMs;
-
-		this.blinkTimer += dtMs;
-		if (this.blinkTimer >= 200) {
-			this.blinkTimer = 0;
-			this.powerPelletBlink = !this.powerPelletBlink;
-		}
-
-		this.updateModeTimer(dtMs);
-		this.updatePacmoon(dtMs);
-		this.checkPelletConsumption();
-		this.updateGhosts(dtMs);
-		this.checkGhostCollisions();
-		this.checkLevelClear();
+	getRoute(): readonly TilePos[] {
+		return this.route;
 	}
 
-	private updateModeTimer(dtMs: number): void {
-		const schedule = this.getModeSchedule();
-		if (this.modeIndex >= schedule.length) return;
-
-		this.modeTimer += dtMs;
-		if (this.modeTimer >= schedule[this.modeIndex]) {
-			this.modeTimer = 0;
-			this.modeIndex++;
-			this.globalMode = this.modeIndex % 2 === 0 ? 'scatter' : 'chase';
-
-			for (const ghost of this.ghosts) {
-				if (ghost.mode !== 'frightened' && ghost.mode !== 'eaten') {
-					ghost.mode = this.globalMode;
-					ghost.reverseDirection();
-				}
+	/**
+	 * Queues the turn onto the next route tile before each tick, and a stop
+	 * once Pacmoon enters the last one, so it halts on that tile's center. The
+	 * turns go through the recorder like any other input, so replays need no
+	 * route.
+	 */
+	private followRoute(): void {
+		if (this.route.length === 0) return;
+
+		const grid = this.simulation.getGrid();
+		const tile = grid.posToTile(this.simulation.getPacmoonPos());
+		if (tile.col === this.route[0].col && tile.row === this.route[0].row) {
+			this.route.shift();
+			if (this.route.length === 0) {
+				this.steer('none');
+				return;
 			}
 		}
-	}
 
-	private getModeSchedule(): number[] {
-		const level = this.hud.level;
-		if (level === 1) {
-			return [7000, 20000, 7000, 20000, 5000, 20000, 5000, Infinity];
-		}
-		if (level >= 2 && level <= 4) {
-			return [7000, 20000, 7000, 20000, 5000, 20000, 5000, Infinity];
+		const dir = dirToNeighbor(grid, tile, this.route[0]);
+		if (dir === 'none') {
+			// Pushed off the route somehow; stop rather than wander.
+			this.cancelRoute();
+		} else if (dir !== this.simulation.getPacmoonDir()) {
+			this.steer(dir);
 		}
-		return [5000, 20000, 5000, 20000, 5000, 20000, 5000, Infinity];
 	}
 
-	private updatePacmoon(dtMs: number): void {
-		const speed = PACMOON_SPEED * (dtMs / 1000);
-
-		if (this.desiredDir !== 'none') {
-			const newDir = this.tryTurn(this.desiredDir);
-			if (newDir !== this.pacmoonDir) {
-				this.pacmoonDir = newDir;
-			}
+	/**
+	 * Forwards a player intent. Confirming on the game-over screen starts a
+	 * fresh game with a new seed, so every game gets its own replay. Daily
+	 * games keep today's seed, which also picks up a new maze after midnight.
+	 */
+	sendIntent(intent: GameIntent): boolean {
+		if (intent === 'confirm' && this.simulation.getPhase() === 'game_over') {
+			this.simulation.reset(createSeed(this.simulation.getMode()));
+			this.recorder = this.createRecorder();
+			this.cancelRoute();
 		}
 
-		if (this.pacmoonDir === 'none') return;
-
-		const v = DIR_V[this.pacmoonDir];
-		const newX = this.pacmoonPos.x + v.x * speed;
-		const newY = this.pacmoonPos.y + v.y * speed;
-
-		const canMove = this.canMoveTo({ x: newX, y: newY }, this.pacmoonDir);
-
-		if (canMove) {
-			this.pacmoonPos.x = newX;
-			this.pacmoonPos.y = newY;
-			this.wrapPosition();
-		} else {
-			this.snapToCenter();
-			this.pacmoonDir = 'none';
-		}
-		
-		// Log every 500ms to see position over time
-		if (Math.floor(this.gameTimeMs / 500) !== Math.floor((this.gameTimeMs - FRAME_MS) / 500)) {
-			console.log('[position]', {
-				time: Math.floor(this.gameTimeMs),
-				x: this.pacmoonPos.x.toFixed(1),
-				y: this.pacmoonPos.y.toFixed(1),
-				dir: this.pacmoonDir
-			});
-		}
+		this.recorder.recordIntent(this.simulation.getTick(), intent);
+		return this.simulation.sendIntent(intent);
 	}
 
-	private updateGhosts(dtMs: number): void {
-		const ra = this.ghosts.find((g) => g.name === 'ra')!;
-
-		for (const ghost of this.ghosts) {
-			ghost.updateFrightened(dtMs, this.globalMode);
-
-			if (ghost.mode !== 'frightened' && ghost.mode !== 'eaten') {
-				ghost.mode = this.globalMode;
-			}
-
-			updateGhostTarget(ghost, this.pacmoonPos, this.pacmoonDir, ra.pos, this.grid);
-
-			if (ghost.isAtTileCenter()) {
-				const newDir = chooseGhostDirection(ghost, this.grid);
-				if (newDir !== 'none') {
-					ghost.dir = newDir;
-				}
-			}
-
-			const tile = ghost.getTilePos();
-			const isInTunnel = this.grid.getTile(tile) === 'tunnel';
-			const speed = ghost.getSpeed(isInTunnel) * (dtMs / 1000);
-
-			if (ghost.dir !== 'none') {
-				const v = DIR_V[ghost.dir];
-				ghost.pos.x += v.x * speed;
-				ghost.pos.y += v.y * speed;
-				ghost.wrapPosition();
-			}
-
-			if (ghost.mode === 'eaten') {
-				const houseCenter = {
-					x: (GHOST_HOUSE_TARGET.col + 0.5) * TS,
-					y: (GHOST_HOUSE_TARGET.row + 0.5) * TS
-				};
-				const dist = Math.abs(ghost.pos.x - houseCenter.x) + Math.abs(ghost.pos.y - houseCenter.y);
-				if (dist < 4) {
-					ghost.respawn();
-					ghost.pos = { ...houseCenter };
-				}
-			}
-		}
+	saveSnapshot(): SimulationSnapshot {
+		return this.simulation.toSnapshot();
 	}
 
-	private tryTurn(dir: Dir): Dir {
-		// If already moving in desired direction, no turn needed
-		if (dir === this.pacmoonDir) {
-			return this.pacmoonDir;
-		}
-
-		const tilePos = this.grid.posToTile(this.pacmoonPos);
-		const center = this.grid.getTileCenter(tilePos);
-
-		if (this.pacmoonDir === 'none') {
-			const nextTile = this.getNextTile(tilePos, dir);
-			if (this.grid.isWalkable(nextTile)) {
-				this.pacmoonPos.x = center.x;
-				this.pacmoonPos.y = center.y;
-				return dir;
-			}
-			return 'none';
-		}
-
-		if (this.isOpposite(dir, this.pacmoonDir)) {
-			return dir;
+	/**
+	 * Resumes a saved game. Replays recorded from here on start at the
+	 * snapshot. A save whose fields don't match its version can fail halfway
+	 * through; the game is then reset and a SnapshotError thrown.
+	 */
+	restoreSnapshot(snapshot: SimulationSnapshot): void {
+		const mode = this.simulation.getMode();
+		const ghostDifficulty = this.simulation.getGhostDifficulty();
+		try {
+			this.simulation.restoreSnapshot(snapshot);
+		} catch (e) {
+			this.simulation.reset(createSeed(mode), mode, ghostDifficulty);
+			this.recorder = this.createRecorder();
+			this.cancelRoute();
+			throw new SnapshotError(`Save could not be restored: ${e instanceof Error ? e.message : String(e)}`);
 		}
-
-		const eps = CENTER_EPS_PX * 4;
-
-		if ((dir === 'up' || dir === 'down') && Math.abs(this.pacmoonPos.x - center.x) > eps) {
-			return this.pacmoonDir;
-		}
-		if ((dir === 'left' || dir === 'right') && Math.abs(this.pacmoonPos.y - center.y) > eps) {
-			return this.pacmoonDir;
-		}
-
-		const nextTile = this.getNextTile(tilePos, dir);
-		if (this.grid.isWalkable(nextTile)) {
-			this.pacmoonPos.x = center.x;
-			this.pacmoonPos.y = center.y;
-			return dir;
-		}
-
-		return this.pacmoonDir;
+		this.recorder = this.createRecorder(snapshot);
+		this.cancelRoute();
 	}
 
-	private isOpposite(a: Dir, b: Dir): boolean {
-		return (
-			(a === 'up' && b === 'down') ||
-			(a === 'down' && b === 'up') ||
-			(a === 'left' && b === 'right') ||
-			(a === 'right' && b === 'left')
-		);
+	getMode(): GameMode {
+		return this.simulation.getMode();
 	}
 
-	private getNextTile(pos: TilePos, dir: Dir): TilePos {
-		const v = DIR_V[dir];
-		return { col: pos.col + v.x, row: pos.row + v.y };
+	/** Switches between classic and daily. Only allowed before a game starts. */
+	setMode(mode: GameMode): boolean {
+		if (this.simulation.getPhase() !== 'start') return false;
+		this.simulation.reset(createSeed(mode), mode);
+		this.recorder = this.createRecorder();
+		this.cancelRoute();
+		return true;
 	}
 
-	private canMoveTo(pos: Vec2, dir: Dir): boolean {
-		const v = DIR_V[dir];
-		const probeX = pos.x + v.x * 4;
-		const probeY = pos.y + v.y * 4;
-
-		const tilePos = {
-			col: Math.floor(probeX / TS),
-			row: Math.floor(probeY / TS)
-		};
-
-		return this.grid.isWalkable(tilePos);
+	getGhostDifficulty(): GhostDifficulty {
+		return this.simulation.getGhostDifficulty();
 	}
 
-	private snapToCenter(): void {
-		const tilePos = this.grid.posToTile(this.pacmoonPos);
-		const center = this.grid.getTileCenter(tilePos);
-		this.pacmoonPos.x = center.x;
-		this.pacmoonPos.y = center.y;
+	/** Picks how cleverly ghosts chase. Only allowed before a game starts. */
+	setGhostDifficulty(ghostDifficulty: GhostDifficulty): boolean {
+		if (this.simulation.getPhase() !== 'start') return false;
+		const mode = this.simulation.getMode();
+		this.simulation.reset(createSeed(mode), mode, ghostDifficulty);
+		this.recorder = this.createRecorder();
+		this.cancelRoute();
+		return true;
 	}
 
-	private wrapPosition(): void {
-		if (this.pacmoonPos.x < 0) {
-			this.pacmoonPos.x += WORLD_W;
-		} else if (this.pacmoonPos.x >= WORLD_W) {
-			this.pacmoonPos.x -= WORLD_W;
-		}
+	/** Returns every input of the current session since the last reset or restore. */
+	exportReplay(): ReplayFile {
+		return this.recorder.toFile(this.simulation.getTick());
 	}
 
-	private checkPelletConsumption(): void {
-		const tilePos = this.grid.posToTile(this.pacmoonPos);
-		const consumed = this.grid.consumePellet(tilePos);
-
-		if (consumed === 'pellet') {
-			this.hud.score += PELLET_SCORE;
-			this.emitHud();
-		} else if (consumed === 'power') {
-			this.hud.score += POWER_PELLET_SCORE;
-			this.ghostsEatenCombo = 0;
-			const duration = getFrightenedDurationMs(this.hud.level);
-			for (const ghost of this.ghosts) {
-				ghost.setFrightened(duration);
-			}
-			this.emitHud();
-		}
+	getPhase(): GamePhase {
+		return this.simulation.getPhase();
 	}
 
-	private checkGhostCollisions(): void {
-		for (const ghost of this.ghosts) {
-			const dx = this.pacmoonPos.x - ghost.pos.x;
-			const dy = this.pacmoonPos.y - ghost.pos.y;
-			const dist = Math.sqrt(dx * dx + dy * dy);
-
-			if (dist < COLLISION_DIST_PX) {
-				if (ghost.mode === 'frightened') {
-					ghost.setEaten();
-					this.ghostsEatenCombo++;
-					const score = GHOST_BASE_SCORE * Math.pow(2, this.ghostsEatenCombo - 1);
-					this.hud.score += score;
-					this.emitHud();
-				} else if (ghost.mode !== 'eaten') {
-					this.handleLifeLost();
-					return;
-				}
-			}
-		}
+	start(): void {
+		if (this.animationId !== null) return;
+		this.lastTime = performance.now();
+		this.accumulator = 0;
+		this.loop(this.lastTime);
 	}
 
-	private handleLifeLost(): void {
-		console.log('[LIFE LOST]', { lives: this.hud.lives, pacPos: this.pacmoonPos });
-		this.hud.lives--;
-		if (this.hud.lives <= 0) {
-			this.hud.phase = 'game_over';
-		} else {
-			this.hud.phase = 'life_lost';
-			this.resetPositions();
+	stop(): void {
+		if (this.animationId !== null) {
+			cancelAnimationFrame(this.animationId);
+			this.animationId = null;
 		}
-		this.emitHud();
 	}
 
-	private resetPositions(): void {
-		this.pacmoonPos = this.grid.tileToPos(this.levelData.pacmoonSpawn);
-		this.pacmoonDir = 'none';
-		this.desiredDir = 'none';
-		this.modeTimer = 0;
-		this.modeIndex = 0;
-		this.globalMode = 'scatter';
-
-		for (let i = 0; i < this.ghosts.length; i++) {
-			const name = GHOST_NAMES[i];
-			const spawn = this.levelData.ghostSpawns[name];
-			const pos = this.grid.tileToPos(spawn);
-			this.ghosts[i].pos = { ...pos };
-			this.ghosts[i].mode = 'scatter';
-			this.ghosts[i].frightenedTimeRemaining = 0;
-			this.ghosts[i].dir = name === 'ra' ? 'left' : 'up';
-		}
+	reset(): void {
+		this.stop();
+		this.simulation.reset(createSeed(this.simulation.getMode()));
+		this.recorder = this.createRecorder();
+		this.cancelRoute();
+		this.render();
 	}
 
-	private checkLevelClear(): void {
-		if (this.grid.getPelletsRemaining() === 0) {
-			this.hud.phase = 'level_clear';
-			this.emitHud();
-		}
-	}
+	private loop = (time: number): void => {
+		let dt = time - this.lastTime;
+		this.lastTime = time;
 
-	private render(): void {
-		beginFrame(this.ctx, this.viewport);
+		dt = Math.min(dt, 100);
 
-		drawMaze(this.ctx, this.grid);
-		drawPellets(this.ctx, this.grid, this.powerPelletBlink);
+		if (this.simulation.isRunning()) {
+			this.accumulator = Math.min(this.accumulator + dt, FRAME_MS * 5);
 
-		if (this.hud.phase === 'start') {
-			drawReadyText(this.ctx);
+			while (this.accumulator >= FRAME_MS) {
+				this.followRoute();
+				this.simulation.step();
+				this.accumulator -= FRAME_MS;
+			}
 		}
 
-		for (const ghost of this.ghosts) {
-			drawGhost(
-				this.ctx,
-				ghost.pos,
-				ghost.name,
-				ghost.mode,
-				ghost.dir,
-				this.gameTimeMs,
-				ghost.frightenedTimeRemaining
-			);
-		}
+		this.render();
+		this.animationId = requestAnimationFrame(this.loop);
+	};
 
-		drawPacmoon(
-			this.ctx,
-			this.pacmoonPos,
-			this.pacmoonDir === 'none' ? 'right' : this.pacmoonDir,
-			this.gameTimeMs
-		);
+	/** Where the maze sits in the canvas, for overlays that must avoid it. */
+	getViewport(): Viewport {
+		// Mazes differ in size, so the fit changes when a new level loads.
+		const grid = this.simulation.getGrid();
+		if (grid.width !== this.viewport.worldW || grid.height !== this.viewport.worldH) {
+			this.viewport = this.fitViewport();
+		}
+		return this.viewport;
 	}
 
-	private emitHud(): void {
-		this.callbacks.onHudUpdate({ ...this.hud });
+	private render(): void {
+		beginFrame(this.ctx, this.getViewport());
+		drawScene(this.ctx, this.simulation, this.route);
 	}
 }
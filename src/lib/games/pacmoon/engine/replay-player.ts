@@ -0,0 +1,105 @@
+import type { HudState } from '../types';
+import { Simulation } from './simulation';
+import { decodeDirCode, decodeInputStream, type ReplayFile } from './replay';
+
+/**
+ * Feeds a recorded session back into a fresh Simulation, tick by tick.
+ * Seeking backwards re-simulates from the start, which is cheap enough for
+ * sessions of a few minutes and keeps the player stateless.
+ */
+export class ReplayPlayer {
+	readonly replay: ReplayFile;
+	private simulation: Simulation;
+	private codes: Uint8Array;
+	private intentIndex = 0;
+	private appliedTick = -1;
+
+	constructor(replay: ReplayFile, onHudUpdate?: (hud: HudState) => void) {
+		this.replay = replay;
+		this.codes = decodeInputStream(replay.input, replay.ticks);
+		this.simulation = new Simulation({
+			seed: replay.seed,
+			mode: replay.mode,
+			ghostDifficulty: replay.ghostDifficulty,
+			onHudUpdate
+		});
+		if (replay.start) {
+			this.simulation.restoreSnapshot(replay.start);
+		}
+	}
+
+	getSimulation(): Simulation {
+		return this.simulation;
+	}
+
+	getTick(): number {
+		return this.simulation.getTick();
+	}
+
+	getStartTick(): number {
+		return this.replay.start?.tick ?? 0;
+	}
+
+	getTotalTicks(): number {
+		return this.replay.ticks;
+	}
+
+	isFinished(): boolean {
+		const tick = this.simulation.getTick();
+		if (tick >= this.replay.ticks) return true;
+
+		this.applyInputs(tick);
+		return !this.simulation.isRunning();
+	}
+
+	/** Applies the inputs recorded for the current tick and runs it. */
+	step(): boolean {
+		const tick = this.simulation.getTick();
+		this.applyInputs(tick);
+
+		if (tick >= this.replay.ticks || !this.simulation.isRunning()) {
+			return false;
+		}
+
+		this.simulation.step();
+		return true;
+	}
+
+	seek(targetTick: number): void {
+		const target = Math.max(0, Math.min(this.replay.ticks, Math.floor(targetTick)));
+
+		if (target < this.simulation.getTick()) {
+			this.rewind();
+		}
+
+		while (this.simulation.getTick() < target && this.step()) {
+			// fast-forward
+		}
+		this.applyInputs(this.simulation.getTick());
+	}
+
+	private rewind(): void {
+		this.simulation.reset();
+		if (this.replay.start) {
+			this.simulation.restoreSnapshot(this.replay.start);
+		}
+		this.intentIndex = 0;
+		this.appliedTick = -1;
+	}
+
+	private applyInputs(tick: number): void {
+		const intents = this.replay.intents;
+		while (this.intentIndex < intents.length && intents[this.intentIndex][0] <= tick) {
+			this.simulation.sendIntent(intents[this.intentIndex][1]);
+			this.intentIndex++;
+		}
+
+		if (this.appliedTick === tick) return;
+		this.appliedTick = tick;
+
+		const dir = decodeDirCode(this.codes[tick] ?? 0);
+		if (dir !== null) {
+			this.simulation.setDesiredDirection(dir);
+		}
+	}
+}
@@ -0,0 +1,259 @@
+import type { Dir, GameIntent, GameMode, GhostDifficulty } from '../types';
+import { migrateSnapshot, type SimulationSnapshot } from './snapshot';
+
+export const REPLAY_FORMAT = 'pacmoon-replay';
+export const REPLAY_VERSION = 1;
+
+export type IntentEvent = [tick: number, intent: GameIntent];
+
+/**
+ * A recorded session. `input` is a base64 run-length stream holding, for every
+ * tick, the last direction passed to setDesiredDirection before that tick ran
+ * (or nothing). Intents (confirm/pause) are kept as a plain list because they
+ * are rare. Sessions resumed from a save carry the snapshot they started from
+ * in `start`.
+ *
+ * A replay only reproduces its game under the simulation rules it was recorded
+ * with, so REPLAY_VERSION is bumped whenever those rules change, not just the
+ * file layout.
+ */
+export interface ReplayFile {
+	format: typeof REPLAY_FORMAT;
+	version: number;
+	seed: number;
+	mode: GameMode;
+	ghostDifficulty: GhostDifficulty;
+	ticks: number;
+	intents: IntentEvent[];
+	input: string;
+	start?: SimulationSnapshot;
+}
+
+export class ReplayFormatError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ReplayFormatError';
+	}
+}
+
+const NO_INPUT = 0;
+
+const DIR_CODES: Record<Dir, number> = {
+	up: 1,
+	down: 2,
+	left: 3,
+	right: 4,
+	none: 5
+};
+
+const CODE_DIRS: (Dir | null)[] = [null, 'up', 'down', 'left', 'right', 'none'];
+
+const GAME_INTENTS: GameIntent[] = ['confirm', 'pause'];
+
+const GAME_MODES: GameMode[] = ['classic', 'daily'];
+
+const GHOST_DIFFICULTIES: GhostDifficulty[] = ['arcade', 'cunning', 'relentless'];
+
+export function decodeDirCode(code: number): Dir | null {
+	return CODE_DIRS[code] ?? null;
+}
+
+export class ReplayRecorder {
+	private readonly seed: number;
+	private readonly mode: GameMode;
+	private readonly ghostDifficulty: GhostDifficulty;
+	private readonly start: SimulationSnapshot | undefined;
+	private codes: number[] = [];
+	private intents: IntentEvent[] = [];
+
+	constructor(seed: number, mode: GameMode, ghostDifficulty: GhostDifficulty, start?: SimulationSnapshot) {
+		this.seed = seed;
+		this.mode = mode;
+		this.ghostDifficulty = ghostDifficulty;
+		this.start = start;
+	}
+
+	recordDirection(tick: number, dir: Dir): void {
+		while (this.codes.length <= tick) {
+			this.codes.push(NO_INPUT);
+		}
+		this.codes[tick] = DIR_CODES[dir];
+	}
+
+	recordIntent(tick: number, intent: GameIntent): void {
+		this.intents.push([tick, intent]);
+	}
+
+	toFile(ticks: number): ReplayFile {
+		const codes = this.codes.slice(0, ticks + 1);
+		while (codes.length <= ticks) {
+			codes.push(NO_INPUT);
+		}
+
+		const replay: ReplayFile = {
+			format: REPLAY_FORMAT,
+			version: REPLAY_VERSION,
+			seed: this.seed,
+			mode: this.mode,
+			ghostDifficulty: this.ghostDifficulty,
+			ticks,
+			intents: this.intents.map(([tick, intent]) => [tick, intent]),
+			input: encodeInputStream(codes)
+		};
+		if (this.start) {
+			replay.start = this.start;
+		}
+		return replay;
+	}
+}
+
+export function encodeInputStream(codes: ArrayLike<number>): string {
+	const bytes: number[] = [];
+	let i = 0;
+
+	while (i < codes.length) {
+		const code = codes[i];
+		let run = 1;
+		while (i + run < codes.length && codes[i + run] === code) {
+			run++;
+		}
+
+		bytes.push(code);
+		writeVarint(bytes, run);
+		i += run;
+	}
+
+	return bytesToBase64(bytes);
+}
+
+export function decodeInputStream(encoded: string, ticks: number): Uint8Array {
+	const bytes = base64ToBytes(encoded);
+	const codes = new Uint8Array(ticks + 1);
+	let tick = 0;
+	let offset = 0;
+
+	while (offset < bytes.length) {
+		const code = bytes[offset++];
+		const [run, next] = readVarint(bytes, offset);
+		offset = next;
+
+		if (code >= CODE_DIRS.length) {
+			throw new ReplayFormatError(`Unknown input code ${code}`);
+		}
+		if (tick + run > codes.length) {
+			throw new ReplayFormatError('Input stream is longer than the recorded tick count');
+		}
+
+		codes.fill(code, tick, tick + run);
+		tick += run;
+	}
+
+	return codes;
+}
+
+export function parseReplay(text: string): ReplayFile {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new ReplayFormatError('Replay is not valid JSON');
+	}
+
+	if (typeof data !== 'object' || data === null) {
+		throw new ReplayFormatError('Replay must be a JSON object');
+	}
+
+	const replay = data as Partial<ReplayFile>;
+	if (replay.format !== REPLAY_FORMAT) {
+		throw new ReplayFormatError('Not a Pacmoon replay file');
+	}
+	if (replay.version !== REPLAY_VERSION) {
+		throw new ReplayFormatError(`Unsupported replay version ${replay.version}`);
+	}
+	if (
+		typeof replay.seed !== 'number' ||
+		typeof replay.ticks !== 'number' ||
+		!Number.isInteger(replay.ticks) ||
+		replay.ticks < 0
+	) {
+		throw new ReplayFormatError('Replay has no valid seed or tick count');
+	}
+	if (!GAME_MODES.includes(replay.mode as GameMode)) {
+		throw new ReplayFormatError(`Unknown game mode ${replay.mode}`);
+	}
+	if (!GHOST_DIFFICULTIES.includes(replay.ghostDifficulty as GhostDifficulty)) {
+		throw new ReplayFormatError(`Unknown ghost difficulty ${replay.ghostDifficulty}`);
+	}
+	if (typeof replay.input !== 'string' || !Array.isArray(replay.intents)) {
+		throw new ReplayFormatError('Replay is missing its input stream');
+	}
+
+	for (const event of replay.intents) {
+		if (
+			!Array.isArray(event) ||
+			!Number.isInteger(event[0]) ||
+			!GAME_INTENTS.includes(event[1])
+		) {
+			throw new ReplayFormatError('Replay contains an invalid intent');
+		}
+	}
+
+	if (replay.start !== undefined) {
+		try {
+			replay.start = migrateSnapshot(replay.start);
+		} catch (e) {
+			throw new ReplayFormatError(e instanceof Error ? e.message : 'Replay has an invalid start snapshot');
+		}
+	}
+
+	return replay as ReplayFile;
+}
+
+function writeVarint(out: number[], value: number): void {
+	let v = value;
+	while (v >= 0x80) {
+		out.push((v & 0x7f) | 0x80);
+		v = Math.floor(v / 0x80);
+	}
+	out.push(v);
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [value: number, next: number] {
+	let value = 0;
+	let scale = 1;
+	let i = offset;
+
+	while (i < bytes.length) {
+		const byte = bytes[i++];
+		value += (byte & 0x7f) * scale;
+		if ((byte & 0x80) === 0) {
+			return [value, i];
+		}
+		scale *= 0x80;
+	}
+
+	throw new ReplayFormatError('Input stream ends in the middle of a run');
+}
+
+function bytesToBase64(bytes: number[]): string {
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function base64ToBytes(encoded: string): Uint8Array {
+	let binary: string;
+	try {
+		binary = atob(encoded);
+	} catch {
+		throw new ReplayFormatError('Input stream is not valid base64');
+	}
+
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
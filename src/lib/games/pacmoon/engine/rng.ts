@@ -0,0 +1,31 @@
+import { LCG_MODULUS, lcgNext } from '../../../seeded-random';
+
+function normalizeSeed(seed: number): number {
+  const s = Math.floor(Math.abs(seed)) % LCG_MODULUS;
+  return s === 0 ? 1 : s;
+}
+
+export class Rng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = normalizeSeed(seed);
+  }
+
+  next(): number {
+    this.state = lcgNext(this.state);
+    return this.state / LCG_MODULUS;
+  }
+
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = normalizeSeed(state);
+  }
+}
@@ -0,0 +1,715 @@
+import type { HudState, GamePhase, GameIntent, GameMode, GhostDifficulty, GhostMode, Dir, Vec2, ScorePopup } from '../types';
+import { DIR_V } from '../types';
+import {
+	FRAME_MS,
+	PELLET_SCORE,
+	POWER_PELLET_SCORE,
+	INITIAL_LIVES,
+	EXTRA_LIFE_SCORE,
+	COLLISION_DIST_PX,
+	GHOST_BASE_SCORE,
+	READY_DURATION_MS,
+	DEATH_ANIMATION_MS,
+	LEVEL_CLEAR_DURATION_MS,
+	TURN_BUFFER_MS,
+	SCORE_POPUP_MS
+} from './config';
+import { Rng } from './rng';
+import { getDifficulty, getElroyStage, levelSpeed, type LevelDifficulty } from './difficulty';
+import { StateMachine } from './state-machine';
+import {
+	closestApproachTime,
+	sweptContactTime,
+	swappedTiles,
+	type CollisionEvent
+} from './collision';
+import { SNAPSHOT_VERSION, type SimulationSnapshot } from './snapshot';
+import { GameEventEmitter, type GameEventMap, type GameEventType } from './events';
+import { MapGrid } from '../world/map-grid';
+import { NavigationMap } from '../world/navigation';
+import { getLevelData, type LevelData } from '../world/level-data';
+import { generateMaze } from '../world/maze-generator';
+import { Ghost } from '../entities/ghost';
+import { Pacmoon } from '../entities/pacmoon';
+import { updateGhostTarget, chooseGhostDirection, toGhostView } from '../entities/ghost-ai';
+import type { GhostWorldView } from '../entities/ghost-behavior';
+import { GhostHouseManager } from '../entities/ghost-house';
+import { BonusManager, type BonusItem } from '../entities/bonus';
+import { createSteering } from '../entities/steering';
+
+export interface SimulationOptions {
+	seed: number;
+	/** Defaults to classic. Daily games generate their maze from the seed. */
+	mode?: GameMode;
+	/** Defaults to arcade steering. */
+	ghostDifficulty?: GhostDifficulty;
+	levelData?: LevelData;
+	onHudUpdate?: (hud: HudState) => void;
+}
+
+/**
+ * Headless Pacmoon simulation. Advances in fixed FRAME_MS ticks, never touches
+ * the DOM and draws all randomness from a seeded Rng, so identical seeds and
+ * inputs always produce identical state.
+ */
+export class Simulation {
+	private seed: number;
+	private mode: GameMode;
+	private ghostDifficulty: GhostDifficulty;
+	private customLevel: LevelData | undefined;
+	private generatedLevel: LevelData | undefined;
+	private generatedSeed = 0;
+	private onHudUpdate: ((hud: HudState) => void) | undefined;
+	/** Gameplay events, as they happen; see GameEventMap. */
+	readonly events = new GameEventEmitter();
+
+	private rng: Rng;
+	private tick = 0;
+	private gameTimeMs = 0;
+
+	private levelData!: LevelData;
+	private difficulty!: LevelDifficulty;
+	private grid!: MapGrid;
+	private navigation!: NavigationMap;
+	private pacmoon!: Pacmoon;
+
+	private ghosts: Ghost[] = [];
+	private house!: GhostHouseManager;
+	private bonus!: BonusManager;
+	private scorePopups: ScorePopup[] = [];
+	private ghostsEatenCombo = 0;
+	/** Ghost modes as last reported, by ghost id. */
+	private reportedModes = new Map<string, GhostMode>();
+	private frightenedActive = false;
+	private modeTimer = 0;
+	private modeIndex = 0;
+	private globalMode: 'scatter' | 'chase' = 'scatter';
+
+	private hud!: HudState;
+	private machine: StateMachine<GamePhase>;
+	private powerPelletBlink = true;
+	private blinkTimer = 0;
+
+	constructor(options: SimulationOptions) {
+		this.seed = options.seed;
+		this.mode = options.mode ?? 'classic';
+		this.ghostDifficulty = options.ghostDifficulty ?? 'arcade';
+		this.customLevel = options.levelData;
+		this.onHudUpdate = options.onHudUpdate;
+		this.rng = new Rng(this.seed);
+		this.machine = this.createStateMachine();
+
+		this.reset();
+	}
+
+	private createStateMachine(): StateMachine<GamePhase> {
+		return new StateMachine<GamePhase>(
+			{
+				start: { transitions: ['ready'] },
+				ready: {
+					transitions: ['playing'],
+					durationMs: READY_DURATION_MS,
+					next: () => 'playing'
+				},
+				playing: { transitions: ['paused', 'life_lost', 'level_clear'] },
+				paused: { transitions: ['playing'] },
+				life_lost: {
+					transitions: ['ready', 'game_over'],
+					durationMs: DEATH_ANIMATION_MS,
+					next: () => (this.hud.lives > 0 ? 'ready' : 'game_over'),
+					onEnter: () => {
+						this.hud.lives--;
+					},
+					onExit: (to) => {
+						if (to === 'ready') {
+							this.resetPositions();
+							this.house.startAfterLifeLost();
+						}
+					}
+				},
+				level_clear: {
+					transitions: ['ready'],
+					durationMs: LEVEL_CLEAR_DURATION_MS,
+					next: () => 'ready',
+					onEnter: () => this.emit('levelCleared', { level: this.hud.level, mode: this.mode }),
+					onExit: () => this.startNextLevel()
+				},
+				game_over: { transitions: [] }
+			},
+			'start',
+			(phase, from) => {
+				this.hud.phase = phase;
+				this.emitHud();
+				this.emit('phaseChanged', { phase, from });
+			}
+		);
+	}
+
+	/** Restarts the game from scratch, optionally with a new seed, mode or ghost difficulty. */
+	reset(
+		seed: number = this.seed,
+		mode: GameMode = this.mode,
+		ghostDifficulty: GhostDifficulty = this.ghostDifficulty
+	): void {
+		this.seed = seed;
+		this.setMode(mode);
+		this.ghostDifficulty = ghostDifficulty;
+		this.rng = new Rng(this.seed);
+		this.tick = 0;
+		this.gameTimeMs = 0;
+
+		this.powerPelletBlink = true;
+		this.blinkTimer = 0;
+
+		this.hud = {
+			score: 0,
+			lives: INITIAL_LIVES,
+			level: 1,
+			phase: 'start',
+			elroyStage: 0,
+			artifacts: []
+		};
+
+		this.loadLevel(1);
+		this.resetReportedModes();
+		this.machine.restore('start');
+	}
+
+	/** Switches mode, generating the daily maze for the current seed if needed. */
+	private setMode(mode: GameMode): void {
+		this.mode = mode;
+		if (mode !== 'daily') {
+			this.generatedLevel = undefined;
+		} else if (!this.generatedLevel || this.generatedSeed !== this.seed) {
+			this.generatedLevel = generateMaze(this.seed, 'Daily Maze');
+			this.generatedSeed = this.seed;
+		}
+	}
+
+	private levelDataFor(level: number): LevelData {
+		return this.customLevel ?? this.generatedLevel ?? getLevelData(level);
+	}
+
+	/** Builds a fresh maze and difficulty for `level` and puts everyone on their spawns. */
+	private loadLevel(level: number): void {
+		this.hud.level = level;
+		this.levelData = this.levelDataFor(level);
+		this.difficulty = getDifficulty(level, this.ghostDifficulty);
+		this.grid = new MapGrid(this.levelData);
+		this.navigation = new NavigationMap(this.grid);
+		this.house = new GhostHouseManager(this.levelData, this.grid, this.difficulty);
+		this.bonus = new BonusManager(this.levelData, this.grid, this.difficulty);
+		this.ghostsEatenCombo = 0;
+
+		this.initGhosts();
+		this.resetPositions();
+		this.onPelletsChanged();
+	}
+
+	private initGhosts(): void {
+		this.ghosts = [];
+		for (const { id, type, spawn, scatter } of this.levelData.ghosts) {
+			const pos = this.grid.tileToPos(spawn);
+			const ghost = new Ghost(id, type, pos, scatter, levelSpeed(this.difficulty, this.difficulty.ghostSpeedPct));
+			ghost.steering = createSteering(this.difficulty.steering, this.difficulty.pursuitWeight);
+			this.ghosts.push(ghost);
+		}
+	}
+
+	/** Queues a turn; 'none' instead stops Pacmoon on the next tile center. */
+	setDesiredDirection(dir: Dir): void {
+		if (dir === 'none') {
+			this.pacmoon.queueStop();
+		} else {
+			this.pacmoon.queueTurn(dir, TURN_BUFFER_MS);
+		}
+	}
+
+	/**
+	 * Applies a player intent to the current phase. Returns false when the
+	 * intent means nothing right now (e.g. "pause" during the death animation).
+	 */
+	sendIntent(intent: GameIntent): boolean {
+		const phase = this.machine.current;
+
+		if (intent === 'pause') {
+			if (phase === 'playing') return this.machine.transition('paused');
+			if (phase === 'paused') return this.machine.transition('playing');
+			return false;
+		}
+
+		switch (phase) {
+			case 'start':
+				return this.machine.transition('ready');
+			case 'paused':
+				return this.machine.transition('playing');
+			case 'game_over':
+				this.reset();
+				return this.machine.transition('ready');
+			default:
+				return false;
+		}
+	}
+
+	getPhase(): GamePhase {
+		return this.machine.current;
+	}
+
+	/** 0–1 progress through a timed phase (READY, death animation, level flash). */
+	getPhaseProgress(): number {
+		return this.machine.getProgress();
+	}
+
+	/** True while ticks advance the game: playing or inside a timed phase. */
+	isRunning(): boolean {
+		return this.machine.current === 'playing' || this.machine.isTimed();
+	}
+
+	getHud(): HudState {
+		return this.copyHud();
+	}
+
+	getSeed(): number {
+		return this.seed;
+	}
+
+	getMode(): GameMode {
+		return this.mode;
+	}
+
+	getGhostDifficulty(): GhostDifficulty {
+		return this.ghostDifficulty;
+	}
+
+	getTick(): number {
+		return this.tick;
+	}
+
+	getTimeMs(): number {
+		return this.gameTimeMs;
+	}
+
+	getGrid(): MapGrid {
+		return this.grid;
+	}
+
+	getLevelData(): LevelData {
+		return this.levelData;
+	}
+
+	getPacmoonPos(): Vec2 {
+		return this.pacmoon.pos;
+	}
+
+	getPacmoonDir(): Dir {
+		return this.pacmoon.dir;
+	}
+
+	/** Whether the tile next to Pacmoon's in `dir` is open. */
+	canPacmoonMove(dir: Dir): boolean {
+		if (dir === 'none') return false;
+		const tile = this.pacmoon.getTilePos();
+		return this.grid.isWalkable({ col: tile.col + DIR_V[dir].x, row: tile.row + DIR_V[dir].y });
+	}
+
+	getGhosts(): readonly Ghost[] {
+		return this.ghosts;
+	}
+
+	getBonusItem(): BonusItem | null {
+		return this.bonus.item;
+	}
+
+	getScorePopups(): readonly ScorePopup[] {
+		return this.scorePopups;
+	}
+
+	isPowerPelletVisible(): boolean {
+		return this.powerPelletBlink;
+	}
+
+	toSnapshot(): SimulationSnapshot {
+		return {
+			version: SNAPSHOT_VERSION,
+			seed: this.seed,
+			mode: this.mode,
+			ghostDifficulty: this.ghostDifficulty,
+			rngState: this.rng.getState(),
+			tick: this.tick,
+			gameTimeMs: this.gameTimeMs,
+			grid: this.grid.serialize(),
+			pacmoon: {
+				pos: { ...this.pacmoon.pos },
+				dir: this.pacmoon.dir,
+				desiredDir: this.pacmoon.desiredDir,
+				turnBufferMs: this.pacmoon.turnBufferMs,
+				stopAtCenter: this.pacmoon.stopAtCenter,
+				eatingTile: this.pacmoon.eatingTile && { ...this.pacmoon.eatingTile }
+			},
+			ghosts: this.ghosts.map((ghost) => ({
+				name: ghost.name,
+				pos: { ...ghost.pos },
+				dir: ghost.dir,
+				mode: ghost.mode,
+				houseState: ghost.houseState,
+				targetTile: { ...ghost.targetTile },
+				frightenedTimeRemaining: ghost.frightenedTimeRemaining
+			})),
+			ghostsEatenCombo: this.ghostsEatenCombo,
+			house: this.house.toState(),
+			bonus: this.bonus.toState(),
+			scorePopups: this.scorePopups.map((popup) => ({ ...popup, pos: { ...popup.pos } })),
+			modeIndex: this.modeIndex,
+			modeTimer: this.modeTimer,
+			globalMode: this.globalMode,
+			powerPelletBlink: this.powerPelletBlink,
+			blinkTimer: this.blinkTimer,
+			hud: this.copyHud(),
+			phaseElapsedMs: this.machine.getElapsedMs()
+		};
+	}
+
+	restoreSnapshot(snapshot: SimulationSnapshot): void {
+		this.seed = snapshot.seed;
+		this.setMode(snapshot.mode);
+		this.ghostDifficulty = snapshot.ghostDifficulty;
+		this.rng = new Rng(this.seed);
+		this.rng.setState(snapshot.rngState);
+		this.tick = snapshot.tick;
+		this.gameTimeMs = snapshot.gameTimeMs;
+		this.hud = { ...snapshot.hud, artifacts: [...snapshot.hud.artifacts] };
+
+		this.levelData = this.levelDataFor(this.hud.level);
+		this.difficulty = getDifficulty(this.hud.level, this.ghostDifficulty);
+		this.grid = new MapGrid(this.levelData);
+		this.grid.restore(snapshot.grid);
+		this.navigation = new NavigationMap(this.grid);
+		this.house = new GhostHouseManager(this.levelData, this.grid, this.difficulty);
+		this.house.restoreState(snapshot.house);
+		this.bonus = new BonusManager(this.levelData, this.grid, this.difficulty);
+		this.bonus.restoreState(snapshot.bonus);
+		this.scorePopups = snapshot.scorePopups.map((popup) => ({ ...popup, pos: { ...popup.pos } }));
+
+		this.pacmoon = new Pacmoon(snapshot.pacmoon.pos);
+		this.pacmoon.dir = snapshot.pacmoon.dir;
+		this.pacmoon.queueTurn(snapshot.pacmoon.desiredDir, snapshot.pacmoon.turnBufferMs);
+		this.pacmoon.stopAtCenter = snapshot.pacmoon.stopAtCenter;
+		this.pacmoon.eatingTile = snapshot.pacmoon.eatingTile && { ...snapshot.pacmoon.eatingTile };
+
+		this.initGhosts();
+		for (const saved of snapshot.ghosts) {
+			const ghost = this.ghosts.find((g) => g.name === saved.name);
+			if (!ghost) continue;
+			ghost.pos = { ...saved.pos };
+			ghost.dir = saved.dir;
+			ghost.mode = saved.mode;
+			ghost.houseState = saved.houseState;
+			ghost.targetTile = { ...saved.targetTile };
+			ghost.frightenedTimeRemaining = saved.frightenedTimeRemaining;
+		}
+		this.onPelletsChanged();
+		this.resetReportedModes();
+
+		this.ghostsEatenCombo = snapshot.ghostsEatenCombo;
+		this.modeIndex = snapshot.modeIndex;
+		this.modeTimer = snapshot.modeTimer;
+		this.globalMode = snapshot.globalMode;
+		this.powerPelletBlink = snapshot.powerPelletBlink;
+		this.blinkTimer = snapshot.blinkTimer;
+
+		this.machine.restore(snapshot.hud.phase, snapshot.phaseElapsedMs);
+	}
+
+	/** Advances one FRAME_MS tick. Does nothing while waiting for the player. */
+	step(): void {
+		if (!this.isRunning()) return;
+		this.tick++;
+
+		if (this.machine.current === 'playing') {
+			this.update(FRAME_MS);
+		} else {
+			this.machine.update(FRAME_MS);
+		}
+		this.syncGhostModes();
+	}
+
+	/** Runs up to `ticks` steps, stopping early once the game waits for input. */
+	advance(ticks: number): void {
+		for (let i = 0; i < ticks && this.isRunning(); i++) {
+			this.step();
+		}
+	}
+
+	private update(dtMs: number): void {
+		this.gameTimeMs += dtMs;
+
+		this.blinkTimer += dtMs;
+		if (this.blinkTimer >= 200) {
+			this.blinkTimer = 0;
+			this.powerPelletBlink = !this.powerPelletBlink;
+		}
+
+		const pacmoonFrom = { ...this.pacmoon.pos };
+		const ghostsFrom = this.ghosts.map((ghost) => ({ ...ghost.pos }));
+
+		this.updateModeTimer(dtMs);
+		this.updatePacmoon(dtMs);
+		this.checkPelletConsumption();
+		this.updateBonus(dtMs, pacmoonFrom);
+		this.updateGhosts(dtMs);
+		this.checkGhostCollisions(pacmoonFrom, ghostsFrom);
+		this.checkLevelClear();
+	}
+
+	private updateModeTimer(dtMs: number): void {
+		const schedule = this.difficulty.modeSchedule;
+		if (this.modeIndex >= schedule.length) return;
+
+		this.modeTimer += dtMs;
+		if (this.modeTimer >= schedule[this.modeIndex]) {
+			this.modeTimer = 0;
+			this.modeIndex++;
+			this.globalMode = this.modeIndex % 2 === 0 ? 'scatter' : 'chase';
+
+			for (const ghost of this.ghosts) {
+				if (ghost.mode !== 'frightened' && ghost.mode !== 'eaten') {
+					ghost.mode = this.globalMode;
+					if (ghost.houseState === 'active') ghost.reverseDirection();
+				}
+			}
+		}
+	}
+
+	private updatePacmoon(dtMs: number): void {
+		this.pacmoon.update(dtMs, this.grid, this.difficulty);
+	}
+
+	/** What ghost behaviors see this tick. */
+	private ghostWorldView(): GhostWorldView {
+		const grid = this.grid;
+		return {
+			cols: grid.cols,
+			rows: grid.rows,
+			level: this.hud.level,
+			timeMs: this.gameTimeMs,
+			pelletsRemaining: grid.getPelletsRemaining(),
+			pacmoon: { tile: this.pacmoon.getTilePos(), dir: this.pacmoon.dir },
+			ghosts: this.ghosts.map(toGhostView),
+			isWalkable: (tile) => grid.isWalkable(tile)
+		};
+	}
+
+	private updateGhosts(dtMs: number): void {
+		const world = this.ghostWorldView();
+		const steering = { grid: this.grid, navigation: this.navigation, rng: this.rng };
+		this.house.update(dtMs, this.ghosts);
+
+		for (const ghost of this.ghosts) {
+			ghost.updateFrightened(dtMs, this.globalMode);
+
+			if (ghost.mode !== 'frightened' && ghost.mode !== 'eaten') {
+				ghost.mode = this.globalMode;
+			}
+
+			if (this.house.moveGhost(ghost, dtMs, this.globalMode)) continue;
+
+			updateGhostTarget(ghost, toGhostView(ghost), world, this.house.entrance);
+
+			const isInTunnel = this.grid.getTile(ghost.getTilePos()) === 'tunnel';
+			const distance = ghost.getSpeed(isInTunnel, this.difficulty) * (dtMs / 1000);
+			ghost.advance(distance, this.grid.width, () => chooseGhostDirection(ghost, steering));
+
+			this.house.tryEnter(ghost);
+		}
+	}
+
+	private checkPelletConsumption(): void {
+		const tilePos = this.pacmoon.getTilePos();
+		const consumed = this.grid.consumePellet(tilePos);
+
+		if (consumed !== null) {
+			this.pacmoon.onPelletEaten(tilePos);
+			this.house.onPelletEaten(this.ghosts);
+			this.bonus.onPelletEaten();
+			this.onPelletsChanged();
+		}
+
+		if (consumed === 'pellet') {
+			this.addScore(PELLET_SCORE);
+			this.emitHud();
+			this.emit('pelletEaten', { tile: tilePos, pelletsRemaining: this.grid.getPelletsRemaining() });
+		} else if (consumed === 'power') {
+			this.addScore(POWER_PELLET_SCORE);
+			this.ghostsEatenCombo = 0;
+			const duration = this.difficulty.frightenedMs;
+			for (const ghost of this.ghosts) {
+				if (duration > 0) {
+					ghost.setFrightened(duration);
+				} else if (ghost.mode !== 'eaten') {
+					ghost.reverseDirection();
+				}
+			}
+			this.emitHud();
+			this.emit('powerPelletEaten', {
+				tile: tilePos,
+				pelletsRemaining: this.grid.getPelletsRemaining(),
+				frightenedMs: duration
+			});
+		}
+	}
+
+	private updateBonus(dtMs: number, pacmoonFrom: Vec2): void {
+		for (const popup of this.scorePopups) {
+			popup.remainingMs -= dtMs;
+		}
+		this.scorePopups = this.scorePopups.filter((popup) => popup.remainingMs > 0);
+
+		this.bonus.update(dtMs);
+		const item = this.bonus.tryCollect({ from: pacmoonFrom, to: this.pacmoon.pos }, this.grid.width);
+		if (!item) return;
+
+		this.addScore(item.score);
+		this.hud.artifacts.push(item.kind);
+		this.scorePopups.push({ pos: { ...item.pos }, score: item.score, remainingMs: SCORE_POPUP_MS });
+		this.emitHud();
+		this.emit('bonusCollected', { kind: item.kind, itemPos: { ...item.pos }, points: item.score });
+	}
+
+	private onPelletsChanged(): void {
+		this.updateElroy();
+		this.emit('pelletsChanged', { remaining: this.grid.getPelletsRemaining(), total: this.grid.pelletsTotal });
+	}
+
+	/**
+	 * Reports ghost mode changes since the last call, and when the first ghost
+	 * turns blue or the last one recovers. Modes change in many places, so
+	 * they are compared once per tick rather than reported where they change.
+	 */
+	private syncGhostModes(): void {
+		for (const ghost of this.ghosts) {
+			const from = this.reportedModes.get(ghost.name);
+			this.reportedModes.set(ghost.name, ghost.mode);
+			if (from !== undefined && from !== ghost.mode) {
+				this.emit('ghostModeChanged', { ghost: ghost.name, ghostPos: { ...ghost.pos }, mode: ghost.mode, from });
+			}
+		}
+
+		const active = this.ghosts.some((ghost) => ghost.mode === 'frightened');
+		if (active === this.frightenedActive) return;
+		this.frightenedActive = active;
+		this.emit('frightenedChanged', { active });
+	}
+
+	/**
+	 * Starts reporting afresh for a new or restored game, so nothing is
+	 * compared against the ghosts of the game before, and tells listeners
+	 * whether any ghost is frightened right now.
+	 */
+	private resetReportedModes(): void {
+		this.reportedModes.clear();
+		this.frightenedActive = this.ghosts.some((ghost) => ghost.mode === 'frightened');
+		this.emit('frightenedChanged', { active: this.frightenedActive });
+		this.syncGhostModes();
+	}
+
+	/** Keeps enraging ghosts and the HUD in step with the pellets left. */
+	private updateElroy(): void {
+		const stage = getElroyStage(this.difficulty, this.grid.getPelletsRemaining());
+		const enraging = this.ghosts.filter((ghost) => ghost.enrages);
+		for (const ghost of enraging) {
+			ghost.elroyStage = stage;
+		}
+		this.hud.elroyStage = enraging.length > 0 ? stage : 0;
+	}
+
+	/**
+	 * Finds every ghost Pacmoon touched during the step, not just where they
+	 * ended up, and resolves the touches in the order they happened. Ties go
+	 * to the level's ghost order.
+	 */
+	private checkGhostCollisions(pacmoonFrom: Vec2, ghostsFrom: Vec2[]): void {
+		const pacmoon = { from: pacmoonFrom, to: this.pacmoon.pos };
+		const width = this.grid.width;
+		const events: CollisionEvent<Ghost>[] = [];
+
+		this.ghosts.forEach((ghost, i) => {
+			if (ghost.mode === 'eaten') return;
+			const sweep = { from: ghostsFrom[i], to: ghost.pos };
+			const time = sweptContactTime(pacmoon, sweep, COLLISION_DIST_PX, width)
+				?? (swappedTiles(pacmoon, sweep) ? closestApproachTime(pacmoon, sweep, width) : null);
+			if (time !== null) events.push({ target: ghost, time });
+		});
+		events.sort((a, b) => a.time - b.time);
+
+		for (const { target: ghost } of events) {
+			if (ghost.mode === 'frightened') {
+				ghost.setEaten();
+				this.ghostsEatenCombo++;
+				const score = GHOST_BASE_SCORE * Math.pow(2, this.ghostsEatenCombo - 1);
+				this.addScore(score);
+				this.emitHud();
+				this.emit('ghostEaten', {
+					ghost: ghost.name,
+					ghostPos: { ...ghost.pos },
+					combo: this.ghostsEatenCombo,
+					points: score
+				});
+			} else if (ghost.mode !== 'eaten') {
+				this.handleLifeLost(ghost);
+				return;
+			}
+		}
+	}
+
+	private handleLifeLost(ghost: Ghost): void {
+		this.machine.transition('life_lost');
+		this.emit('lifeLost', { ghost: ghost.name, ghostPos: { ...ghost.pos }, livesLeft: this.hud.lives });
+	}
+
+	private resetPositions(): void {
+		this.pacmoon = new Pacmoon(this.grid.tileToPos(this.levelData.pacmoonSpawn));
+		this.modeTimer = 0;
+		this.modeIndex = 0;
+		this.globalMode = 'scatter';
+		this.bonus.clear();
+		this.scorePopups = [];
+
+		for (const ghost of this.ghosts) {
+			this.house.placeAtSpawn(ghost);
+			ghost.mode = 'scatter';
+			ghost.frightenedTimeRemaining = 0;
+		}
+	}
+
+	private checkLevelClear(): void {
+		if (this.grid.getPelletsRemaining() === 0) {
+			this.machine.transition('level_clear');
+		}
+	}
+
+	private startNextLevel(): void {
+		this.loadLevel(this.hud.level + 1);
+	}
+
+	/** Adds points, with the one extra life for passing EXTRA_LIFE_SCORE. */
+	private addScore(points: number): void {
+		const before = this.hud.score;
+		this.hud.score += points;
+		if (before < EXTRA_LIFE_SCORE && this.hud.score >= EXTRA_LIFE_SCORE) {
+			this.hud.lives++;
+			this.emit('extraLife', { lives: this.hud.lives, score: this.hud.score });
+		}
+	}
+
+	private copyHud(): HudState {
+		return { ...this.hud, artifacts: [...this.hud.artifacts] };
+	}
+
+	private emitHud(): void {
+		this.onHudUpdate?.(this.copyHud());
+	}
+
+	private emit<K extends GameEventType>(type: K, data: GameEventMap[K]): void {
+		this.events.emit<K>({ ...data, type, tick: this.tick, pacmoonPos: { ...this.pacmoon.pos } });
+	}
+}
@@ -0,0 +1,81 @@
+export interface StateConfig<S extends string> {
+	/** States this one may move to. Anything else is rejected. */
+	transitions: readonly S[];
+	/** Makes the state timed: after this long it moves on by itself. */
+	durationMs?: number;
+	/** Where a timed state goes when its time is up. */
+	next?: () => S;
+	onEnter?: (from: S) => void;
+	onExit?: (to: S) => void;
+}
+
+export type StateTable<S extends string> = Record<S, StateConfig<S>>;
+
+export class StateMachine<S extends string> {
+	private readonly table: StateTable<S>;
+	private readonly onChange: ((state: S, from: S) => void) | undefined;
+	private state: S;
+	private elapsedMs = 0;
+
+	constructor(table: StateTable<S>, initial: S, onChange?: (state: S, from: S) => void) {
+		this.table = table;
+		this.state = initial;
+		this.onChange = onChange;
+	}
+
+	get current(): S {
+		return this.state;
+	}
+
+	getElapsedMs(): number {
+		return this.elapsedMs;
+	}
+
+	/** 0–1 progress through a timed state; always 0 for untimed states. */
+	getProgress(): number {
+		const duration = this.table[this.state].durationMs;
+		if (!duration) return 0;
+		return Math.min(1, this.elapsedMs / duration);
+	}
+
+	isTimed(): boolean {
+		return this.table[this.state].durationMs !== undefined;
+	}
+
+	canTransition(to: S): boolean {
+		return this.table[this.state].transitions.includes(to);
+	}
+
+	/** Moves to `to`, running exit/enter hooks. Returns false for illegal moves. */
+	transition(to: S): boolean {
+		if (!this.canTransition(to)) {
+			return false;
+		}
+
+		const from = this.state;
+		this.table[from].onExit?.(to);
+		this.state = to;
+		this.elapsedMs = 0;
+		this.table[to].onEnter?.(from);
+		this.onChange?.(to, from);
+		return true;
+	}
+
+	update(dtMs: number): void {
+		const config = this.table[this.state];
+		if (config.durationMs === undefined) return;
+
+		this.elapsedMs += dtMs;
+		if (this.elapsedMs >= config.durationMs && config.next) {
+			this.transition(config.next());
+		}
+	}
+
+	/** Jumps straight to a state without running hooks, e.g. when loading a save. */
+	restore(state: S, elapsedMs = 0): void {
+		const from = this.state;
+		this.state = state;
+		this.elapsedMs = elapsedMs;
+		this.onChange?.(state, from);
+	}
+}
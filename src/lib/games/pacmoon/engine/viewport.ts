@@ -1,10 +1,11 @@
-import { WORLD_W, WORLD_H } from './config';
-
 export type ViewportMode = 'contain' | 'cover';
 
 export interface Viewport {
   vwCss: number;
   vhCss: number;
+  /** Size of the world being shown, in logical px. */
+  worldW: number;
+  worldH: number;
   dpr: number;
   scaleDevice: number;
   scaleCss: number;
@@ -18,13 +19,15 @@ export interface Viewport {
 export function computeViewport(
   vwCss: number,
   vhCss: number,
+  worldW: number,
+  worldH: number,
   mode: ViewportMode = 'contain',
   dprRaw: number = typeof window !== 'undefined' ? window.devicePixelRatio : 1
 ): Viewport {
   const dpr = Math.min(2, Math.max(1, dprRaw));
 
-  const scaleX = (vwCss * dpr) / WORLD_W;
-  const scaleY = (vhCss * dpr) / WORLD_H;
+  const scaleX = (vwCss * dpr) / worldW;
+  const scaleY = (vhCss * dpr) / worldH;
 
   const rawScale = mode === 'contain'
     ? Math.min(scaleX, scaleY)
@@ -33,21 +36,22 @@ export function computeViewport(
   const scaleDevice = Math.max(1, Math.floor(rawScale));
   const scaleCss = scaleDevice / dpr;
 
-  const mazeCssW = WORLD_W * scaleCss;
-  const mazeCssH = WORLD_H * scaleCss;
+  const mazeCssW = worldW * scaleCss;
+  const mazeCssH = worldH * scaleCss;
 
   const offsetCssX = (vwCss - mazeCssW) / 2;
   const offsetCssY = (vhCss - mazeCssH) / 2;
 
   const canvasW = Math.round(vwCss * dpr);
   const canvasH = Math.round(vhCss * dpr);
-  const mazeDeviceW = WORLD_W * scaleDevice;
-  const mazeDeviceH = WORLD_H * scaleDevice;
+  const mazeDeviceW = worldW * scaleDevice;
+  const mazeDeviceH = worldH * scaleDevice;
   const offsetDeviceX = Math.floor((canvasW - mazeDeviceW) / 2);
   const offsetDeviceY = Math.floor((canvasH - mazeDeviceH) / 2);
 
   return {
     vwCss, vhCss, dpr,
+    worldW, worldH,
     scaleDevice, scaleCss,
     offsetCssX, offsetCssY,
     offsetDeviceX, offsetDeviceY,
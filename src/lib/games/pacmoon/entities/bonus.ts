@@ -0,0 +1,100 @@
+import type { ArtifactKind, TilePos, Vec2 } from '../types';
+import { BONUS_DURATION_MS, COLLISION_DIST_PX } from '../engine/config';
+import type { LevelDifficulty } from '../engine/difficulty';
+import { sweptContactTime, type Sweep } from '../engine/collision';
+import type { LevelData } from '../world/level-data';
+import type { MapGrid } from '../world/map-grid';
+import { Entity } from './entity';
+
+/** A lunar artifact lying in the maze for a limited time. */
+export class BonusItem extends Entity {
+  readonly kind: ArtifactKind;
+  readonly score: number;
+  remainingMs: number;
+
+  constructor(kind: ArtifactKind, score: number, pos: Vec2, remainingMs: number) {
+    super(pos, 0);
+    this.kind = kind;
+    this.score = score;
+    this.remainingMs = remainingMs;
+  }
+}
+
+/** Bonus bookkeeping that has to survive a save. */
+export interface BonusState {
+  pelletsEaten: number;
+  /** How many of the level's bonus thresholds have been passed. */
+  spawned: number;
+  item: { kind: ArtifactKind; score: number; pos: Vec2; remainingMs: number } | null;
+}
+
+/**
+ * Puts the level's artifact below the ghost house each time Pacmoon has eaten
+ * one of the difficulty's pellet counts, and takes it away again when its
+ * time runs out, Pacmoon collects it or a life is lost.
+ */
+export class BonusManager {
+  item: BonusItem | null = null;
+  private readonly spot: Vec2;
+  private readonly difficulty: LevelDifficulty;
+  private pelletsEaten = 0;
+  private spawned = 0;
+
+  constructor(level: LevelData, grid: MapGrid, difficulty: LevelDifficulty) {
+    this.difficulty = difficulty;
+
+    // Where READY! is written, unless a custom maze has a wall there.
+    const { ghostHouse: house } = level;
+    const below: TilePos = { col: house.col + Math.floor(house.width / 2), row: house.row + house.height + 1 };
+    this.spot = grid.tileToPos(grid.isWalkable(below) ? below : level.pacmoonSpawn);
+  }
+
+  onPelletEaten(): void {
+    this.pelletsEaten++;
+
+    const next = this.difficulty.bonusPellets[this.spawned];
+    if (next !== undefined && this.pelletsEaten >= next) {
+      this.spawned++;
+      const { bonusArtifact, bonusScore } = this.difficulty;
+      this.item = new BonusItem(bonusArtifact, bonusScore, this.spot, BONUS_DURATION_MS);
+    }
+  }
+
+  update(dtMs: number): void {
+    if (!this.item) return;
+    this.item.remainingMs -= dtMs;
+    if (this.item.remainingMs <= 0) this.item = null;
+  }
+
+  /** Removes and returns the artifact if Pacmoon touched it during the step. */
+  tryCollect(pacmoon: Sweep, worldWidth: number): BonusItem | null {
+    const item = this.item;
+    if (!item) return null;
+
+    const still = { from: item.pos, to: item.pos };
+    if (sweptContactTime(pacmoon, still, COLLISION_DIST_PX, worldWidth) === null) return null;
+
+    this.item = null;
+    return item;
+  }
+
+  clear(): void {
+    this.item = null;
+  }
+
+  toState(): BonusState {
+    const { item } = this;
+    return {
+      pelletsEaten: this.pelletsEaten,
+      spawned: this.spawned,
+      item: item && { kind: item.kind, score: item.score, pos: { ...item.pos }, remainingMs: item.remainingMs }
+    };
+  }
+
+  restoreState(state: BonusState): void {
+    this.pelletsEaten = state.pelletsEaten;
+    this.spawned = state.spawned;
+    const { item } = state;
+    this.item = item && new BonusItem(item.kind, item.score, item.pos, item.remainingMs);
+  }
+}
@@ -1,9 +1,12 @@
 import type { Dir, Vec2, TilePos } from '../types';
 import { DIR_V } from '../types';
-import { BASE_TILE, WORLD_W } from '../engine/config';
+import { BASE_TILE, SNAP_EPS_PX } from '../engine/config';
 
 const TS = BASE_TILE;
 
+/** Picks the direction to leave a tile center in; 'none' stops there. */
+export type CenterDecision = (tile: TilePos) => Dir;
+
 export abstract class Entity {
   pos: Vec2;
   dir: Dir = 'none';
@@ -29,21 +32,54 @@ export abstract class Entity {
     };
   }
 
-  move(dtMs: number): void {
-    if (this.dir === 'none') return;
+  /**
+   * Moves `distance` px, splitting the move at every tile center on the way.
+   * `decide` runs exactly on each center and the rest of the distance goes
+   * the way it chose, so no turn is missed however long the step is. A
+   * stopped entity is taken to be standing on its center.
+   */
+  advance(distance: number, worldWidth: number, decide: CenterDecision): void {
+    let remaining = distance;
+
+    while (remaining > 0) {
+      if (this.dir === 'none' || this.alongOffset() <= SNAP_EPS_PX) {
+        this.snapAlong();
+        this.dir = decide(this.getTilePos());
+        if (this.dir === 'none') return;
+      }
 
-    const distance = this.speed * (dtMs / 1000);
-    const v = DIR_V[this.dir];
+      const v = DIR_V[this.dir];
+      const axis = v.x !== 0 ? 'x' : 'y';
+      const sign = v[axis];
+      let toCenter = (this.getTileCenter()[axis] - this.pos[axis]) * sign;
+      if (toCenter <= SNAP_EPS_PX) toCenter += TS;
+
+      const step = Math.min(remaining, toCenter);
+      this.pos[axis] += sign * step;
+      remaining -= step;
+      if (step === toCenter) this.snapAlong();
+      this.wrapPosition(worldWidth);
+    }
+  }
 
-    this.pos.x += v.x * distance;
-    this.pos.y += v.y * distance;
+  /** Distance from the tile center along the axis of travel. */
+  private alongOffset(): number {
+    const center = this.getTileCenter();
+    return DIR_V[this.dir].x !== 0 ? Math.abs(this.pos.x - center.x) : Math.abs(this.pos.y - center.y);
+  }
+
+  private snapAlong(): void {
+    if (this.dir === 'none') return;
+    const center = this.getTileCenter();
+    if (DIR_V[this.dir].x !== 0) this.pos.x = center.x;
+    else this.pos.y = center.y;
   }
 
-  wrapPosition(): void {
+  wrapPosition(worldWidth: number): void {
     if (this.pos.x < 0) {
-      this.pos.x += WORLD_W;
-    } else if (this.pos.x >= WORLD_W) {
-      this.pos.x -= WORLD_W;
+      this.pos.x += worldWidth;
+    } else if (this.pos.x >= worldWidth) {
+      this.pos.x -= worldWidth;
     }
   }
 
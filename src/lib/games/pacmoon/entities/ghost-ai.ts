@@ -1,116 +1,62 @@
-import type { Dir, TilePos, Vec2 } from '../types';
-import { DIR_V } from '../types';
-import { BASE_TILE } from '../engine/config';
+import type { Dir, TilePos } from '../types';
 import type { Ghost } from './ghost';
-import type { MapGrid } from '../world/map-grid';
-import { bfsNextDir } from '../world/pathfinding';
+import type { GhostView, GhostWorldView } from './ghost-behavior';
+import { frightenedSteering, pursuitSteering, type SteeringWorld } from './steering';
 
-const TS = BASE_TILE;
-export const GHOST_HOUSE_TARGET: TilePos = { col: 13, row: 14 };
+function clampTarget(target: TilePos, world: GhostWorldView): TilePos {
+  return {
+    col: Math.max(0, Math.min(world.cols - 1, target.col)),
+    row: Math.max(0, Math.min(world.rows - 1, target.row))
+  };
+}
 
-function clampTarget(target: TilePos, grid: MapGrid): TilePos {
+export function toGhostView(ghost: Ghost): GhostView {
   return {
-    col: Math.max(0, Math.min(grid.cols - 1, target.col)),
-    row: Math.max(0, Math.min(grid.rows - 1, target.row))
+    id: ghost.name,
+    type: ghost.type,
+    tile: ghost.getTilePos(),
+    dir: ghost.dir,
+    mode: ghost.mode,
+    scatterTarget: ghost.scatterTarget
   };
 }
 
 export function updateGhostTarget(
   ghost: Ghost,
-  pacmoonPos: Vec2,
-  pacmoonDir: Dir,
-  raPos: Vec2,
-  grid: MapGrid
+  self: GhostView,
+  world: GhostWorldView,
+  houseEntrance: TilePos
 ): void {
-  if (ghost.mode === 'eaten') {
-    ghost.targetTile = GHOST_HOUSE_TARGET;
-    return;
-  }
-
-  if (ghost.mode === 'frightened') {
-    ghost.targetTile = getRandomTarget(ghost, grid);
-    return;
-  }
+  ghost.speedModifier = 1;
 
-  if (ghost.mode === 'scatter') {
-    ghost.targetTile = ghost.scatterTarget;
+  if (ghost.mode === 'eaten') {
+    ghost.targetTile = houseEntrance;
     return;
   }
 
-  const pacmoonTile = {
-    col: Math.floor(pacmoonPos.x / TS),
-    row: Math.floor(pacmoonPos.y / TS)
-  };
-
-  switch (ghost.name) {
-    case 'ra':
-      ghost.targetTile = pacmoonTile;
-      break;
+  // Frightened ghosts turn at random and have no target.
+  if (ghost.mode === 'frightened') return;
 
-    case 'bastet':
-      ghost.targetTile = clampTarget(getTileAhead(pacmoonTile, pacmoonDir, 4), grid);
-      break;
+  // Enraged ghosts keep chasing through scatter phases.
+  const { behavior } = ghost;
+  const intent = ghost.mode === 'scatter' && ghost.elroyStage === 0
+    ? behavior.scatter?.(self, world) ?? { target: ghost.scatterTarget }
+    : behavior.chase(self, world);
 
-    case 'thoth':
-      ghost.targetTile = clampTarget(getThothTarget(pacmoonTile, pacmoonDir, raPos), grid);
-      break;
-
-    case 'anubis':
-      ghost.targetTile = getAnubisTarget(ghost, pacmoonTile);
-      break;
-  }
-}
-
-function getTileAhead(tile: TilePos, dir: Dir, distance: number): TilePos {
-  const v = DIR_V[dir];
-  return {
-    col: tile.col + v.x * distance,
-    row: tile.row + v.y * distance
-  };
+  ghost.targetTile = clampTarget(intent.target, world);
+  ghost.speedModifier = intent.speedModifier ?? 1;
 }
 
-function getThothTarget(pacmoonTile: TilePos, pacmoonDir: Dir, raPos: Vec2): TilePos {
-  const twoAhead = getTileAhead(pacmoonTile, pacmoonDir, 2);
-  const raTile = {
-    col: Math.floor(raPos.x / TS),
-    row: Math.floor(raPos.y / TS)
-  };
-
-  return {
-    col: twoAhead.col + (twoAhead.col - raTile.col),
-    row: twoAhead.row + (twoAhead.row - raTile.row)
-  };
-}
-
-function getAnubisTarget(ghost: Ghost, pacmoonTile: TilePos): TilePos {
-  const ghostTile = ghost.getTilePos();
-  const dx = ghostTile.col - pacmoonTile.col;
-  const dy = ghostTile.row - pacmoonTile.row;
-  const distSq = dx * dx + dy * dy;
-
-  if (distSq > 64) {
-    return pacmoonTile;
-  }
-  return ghost.scatterTarget;
-}
-
-function getRandomTarget(ghost: Ghost, grid: MapGrid): TilePos {
-  const current = ghost.getTilePos();
-  const offset = Math.floor(Math.random() * 10) - 5;
-  return {
-    col: Math.max(0, Math.min(grid.cols - 1, current.col + offset)),
-    row: Math.max(0, Math.min(grid.rows - 1, current.row + offset))
-  };
-}
-
-export function chooseGhostDirection(ghost: Ghost, grid: MapGrid): Dir {
-  const currentTile = ghost.getTilePos();
-
-  return bfsNextDir({
-    grid,
-    from: currentTile,
-    to: ghost.targetTile,
+export function chooseGhostDirection(ghost: Ghost, world: SteeringWorld): Dir {
+  const input = {
+    from: ghost.getTilePos(),
+    target: ghost.targetTile,
     currentDir: ghost.dir,
     canUseDoor: ghost.canUseDoor()
-  });
+  };
+
+  if (ghost.mode === 'frightened') return frightenedSteering(input, world);
+  // Straight-line steering can circle forever on some mazes; eyes always find the way home.
+  if (ghost.mode === 'eaten') return pursuitSteering(input, world);
+  return ghost.steering(input, world);
 }
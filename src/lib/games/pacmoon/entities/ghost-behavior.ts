@@ -0,0 +1,40 @@
+import type { Dir, GhostMode, GhostName, TilePos } from '../types';
+
+/** What a behavior may know about one ghost. */
+export interface GhostView {
+  readonly id: string;
+  readonly type: GhostName;
+  readonly tile: TilePos;
+  readonly dir: Dir;
+  readonly mode: GhostMode;
+  readonly scatterTarget: TilePos;
+}
+
+/** A read-only snapshot of the world, rebuilt every tick. */
+export interface GhostWorldView {
+  readonly cols: number;
+  readonly rows: number;
+  readonly level: number;
+  readonly timeMs: number;
+  readonly pelletsRemaining: number;
+  readonly pacmoon: { readonly tile: TilePos; readonly dir: Dir };
+  readonly ghosts: readonly GhostView[];
+  isWalkable(tile: TilePos): boolean;
+}
+
+export interface GhostIntent {
+  target: TilePos;
+  /** Multiplies the level's ghost speed; defaults to 1. */
+  speedModifier?: number;
+}
+
+/**
+ * A ghost personality. Behaviors only pick targets: steering, the house and
+ * frightened or eaten ghosts are handled by the engine. They must be pure
+ * functions of their arguments so games replay exactly.
+ */
+export interface GhostBehavior {
+  chase(self: GhostView, world: GhostWorldView): GhostIntent;
+  /** Defaults to heading for the ghost's scatter corner at normal speed. */
+  scatter?(self: GhostView, world: GhostWorldView): GhostIntent;
+}
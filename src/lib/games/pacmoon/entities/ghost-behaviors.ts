@@ -0,0 +1,92 @@
+import type { Dir, TilePos } from '../types';
+import { DIR_ORDER, DIR_V } from '../types';
+import type { GhostBehavior, GhostWorldView } from './ghost-behavior';
+import { getDistanceSquared } from '../world/pathfinding';
+
+function tileAhead(tile: TilePos, dir: Dir, distance: number): TilePos {
+  const v = DIR_V[dir];
+  return {
+    col: tile.col + v.x * distance,
+    row: tile.row + v.y * distance
+  };
+}
+
+/** Ra: heads straight for Pacmoon. */
+export const raBehavior: GhostBehavior = {
+  chase: (_self, world) => ({ target: world.pacmoon.tile })
+};
+
+/** Bastet: aims four tiles ahead of Pacmoon to cut it off. */
+export const bastetBehavior: GhostBehavior = {
+  chase: (_self, world) => ({ target: tileAhead(world.pacmoon.tile, world.pacmoon.dir, 4) })
+};
+
+/**
+ * Thoth: doubles the vector from Ra to the tile two ahead of Pacmoon, so it
+ * flanks from the far side. Without Ra it measures from itself.
+ */
+export const thothBehavior: GhostBehavior = {
+  chase: (self, world) => {
+    const twoAhead = tileAhead(world.pacmoon.tile, world.pacmoon.dir, 2);
+    const ra = world.ghosts.find((ghost) => ghost.type === 'ra')?.tile ?? self.tile;
+    return {
+      target: {
+        col: twoAhead.col + (twoAhead.col - ra.col),
+        row: twoAhead.row + (twoAhead.row - ra.row)
+      }
+    };
+  }
+};
+
+/** Anubis: chases from afar but retreats to its corner within eight tiles. */
+export const anubisBehavior: GhostBehavior = {
+  chase: (self, world) => ({
+    target: getDistanceSquared(self.tile, world.pacmoon.tile) > 64 ? world.pacmoon.tile : self.scatterTarget
+  })
+};
+
+const SEKHMET_LEG_MS = 7000;
+const SEKHMET_POUNCE_DIST_SQ = 25;
+
+/**
+ * Sekhmet: patrols the maze's four corners in turn and pounces, a little
+ * faster, once Pacmoon comes within five tiles.
+ */
+export const sekhmetBehavior: GhostBehavior = {
+  chase: (self, world) => {
+    if (getDistanceSquared(self.tile, world.pacmoon.tile) <= SEKHMET_POUNCE_DIST_SQ) {
+      return { target: world.pacmoon.tile, speedModifier: 1.1 };
+    }
+    const corners = [
+      { col: 1, row: 1 },
+      { col: world.cols - 2, row: 1 },
+      { col: world.cols - 2, row: world.rows - 2 },
+      { col: 1, row: world.rows - 2 }
+    ];
+    return { target: corners[Math.floor(world.timeMs / SEKHMET_LEG_MS) % corners.length] };
+  }
+};
+
+const SOBEK_LOOKAHEAD = 12;
+
+/** The first junction Pacmoon will reach on its current heading. */
+function nextJunction(world: GhostWorldView): TilePos {
+  const { tile, dir } = world.pacmoon;
+  if (dir === 'none') return tile;
+
+  let current = tile;
+  for (let step = 0; step < SOBEK_LOOKAHEAD; step++) {
+    const next = tileAhead(current, dir, 1);
+    if (!world.isWalkable(next)) return current;
+    current = next;
+
+    const exits = DIR_ORDER.filter((d) => world.isWalkable(tileAhead(current, d, 1))).length;
+    if (exits >= 3) return current;
+  }
+  return current;
+}
+
+/** Sobek: lies in wait at the junction Pacmoon is heading for, moving a touch slower. */
+export const sobekBehavior: GhostBehavior = {
+  chase: (_self, world) => ({ target: nextJunction(world), speedModifier: 0.95 })
+};
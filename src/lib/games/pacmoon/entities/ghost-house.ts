@@ -0,0 +1,239 @@
+import type { Dir, TilePos, Vec2 } from '../types';
+import { DIR_ORDER, DIR_V } from '../types';
+import { BASE_TILE, GHOST_BOB_PX, GHOST_EATEN_SPEED } from '../engine/config';
+import { levelSpeed, type LevelDifficulty } from '../engine/difficulty';
+import type { LevelData } from '../world/level-data';
+import type { MapGrid } from '../world/map-grid';
+import type { Ghost } from './ghost';
+
+const TS = BASE_TILE;
+
+/**
+ * Pellets after a lost life before each ghost may leave while the shared
+ * counter runs, by the ghost's place in the level's release order.
+ */
+const GLOBAL_DOT_LIMITS = [0, 7, 17, 32];
+const GLOBAL_DOT_MAX = GLOBAL_DOT_LIMITS[GLOBAL_DOT_LIMITS.length - 1];
+
+/** Limits run out after the arcade four; later ghosts use the last one. */
+function limitAt(limits: readonly number[], index: number): number {
+  return limits[Math.min(index, limits.length - 1)];
+}
+
+/** Release bookkeeping that has to survive a save. */
+export interface HouseReleaseState {
+  /** Personal pellet counts, by ghost id. */
+  dotCounters: Record<string, number>;
+  globalDots: number;
+  globalActive: boolean;
+  idleMs: number;
+}
+
+function tileCenter(pos: TilePos): Vec2 {
+  return { x: (pos.col + 0.5) * TS, y: (pos.row + 0.5) * TS };
+}
+
+/**
+ * Arcade ghost-house rules: who waits inside, when they are let out, and the
+ * scripted paths through the door. Ghosts leave one at a time in the
+ * level's order, when their own pellet counter reaches the level's limit,
+ * when the shared counter that runs after a lost life reaches theirs, or
+ * when Pacmoon goes too long without eating.
+ */
+export class GhostHouseManager {
+  /** Tile just outside the door, where leaving ghosts appear and eaten ones head. */
+  readonly entrance: TilePos;
+  private readonly house: LevelData['ghostHouse'];
+  private readonly exitDir: Dir;
+  private readonly exitPos: Vec2;
+  private readonly homePos: Vec2;
+  private readonly difficulty: LevelDifficulty;
+  private state: HouseReleaseState = {
+    dotCounters: {},
+    globalDots: 0,
+    globalActive: false,
+    idleMs: 0
+  };
+
+  constructor(level: LevelData, grid: MapGrid, difficulty: LevelDifficulty) {
+    this.house = level.ghostHouse;
+    this.difficulty = difficulty;
+
+    const exit = this.findExit(grid);
+    this.entrance = exit.outside;
+    this.exitDir = exit.dir;
+    this.exitPos = tileCenter(exit.outside);
+
+    // Eaten ghosts revive on the house's middle line, straight in from the door.
+    const door = tileCenter(exit.door);
+    const middle = {
+      x: (this.house.col + this.house.width / 2) * TS,
+      y: (this.house.row + this.house.height / 2) * TS
+    };
+    this.homePos = DIR_V[exit.dir].x === 0 ? { x: door.x, y: middle.y } : { x: middle.x, y: door.y };
+  }
+
+  /** The first door tile with the house on one side and open maze on the other. */
+  private findExit(grid: MapGrid): { door: TilePos; outside: TilePos; dir: Dir } {
+    for (const door of this.house.door) {
+      const step = (dir: Dir) => ({ col: door.col + DIR_V[dir].x, row: door.row + DIR_V[dir].y });
+      const inside = DIR_ORDER.find((dir) => this.contains(step(dir)));
+      if (!inside) continue;
+
+      const dir = DIR_ORDER.find((d) => d !== inside && grid.isWalkable(step(d)) && !this.contains(step(d)));
+      if (dir) return { door, outside: step(dir), dir };
+    }
+    throw new Error(`Ghost house at ${this.house.col},${this.house.row} has no usable door`);
+  }
+
+  contains(tile: TilePos): boolean {
+    const { col, row, width, height } = this.house;
+    return tile.col >= col && tile.col < col + width && tile.row >= row && tile.row < row + height;
+  }
+
+  /** After a lost life the shared counter takes over; personal counts are kept. */
+  startAfterLifeLost(): void {
+    this.state.globalDots = 0;
+    this.state.globalActive = true;
+    this.state.idleMs = 0;
+  }
+
+  /** Puts a ghost back on its spawn, waiting if that spawn is inside the house. */
+  placeAtSpawn(ghost: Ghost): void {
+    ghost.pos = { ...ghost.spawnPos };
+    ghost.houseState = this.contains(ghost.getTilePos()) ? 'waiting' : 'active';
+    ghost.dir = ghost.houseState === 'waiting' ? 'up' : 'left';
+  }
+
+  onPelletEaten(ghosts: readonly Ghost[]): void {
+    this.state.idleMs = 0;
+
+    if (this.state.globalActive) {
+      this.state.globalDots++;
+      return;
+    }
+    const next = this.nextWaiting(ghosts);
+    if (next) {
+      this.state.dotCounters[next.name] = (this.state.dotCounters[next.name] ?? 0) + 1;
+    }
+  }
+
+  /** Lets the next waiting ghost out once a counter or the idle timer says so. */
+  update(dtMs: number, ghosts: readonly Ghost[]): void {
+    this.state.idleMs += dtMs;
+
+    const next = this.nextWaiting(ghosts);
+    if (!next) {
+      this.state.globalActive = false;
+      return;
+    }
+
+    const order = ghosts.indexOf(next);
+    if (this.state.globalActive) {
+      if (this.state.globalDots >= limitAt(GLOBAL_DOT_LIMITS, order)) {
+        this.release(next);
+      } else if (this.state.globalDots >= GLOBAL_DOT_MAX) {
+        this.state.globalActive = false;
+      }
+    } else if ((this.state.dotCounters[next.name] ?? 0) >= limitAt(this.difficulty.houseDotLimits, order)) {
+      this.release(next);
+    }
+
+    if (this.state.idleMs >= this.difficulty.houseIdleMs) {
+      this.state.idleMs = 0;
+      const waiting = this.nextWaiting(ghosts);
+      if (waiting) this.release(waiting);
+    }
+  }
+
+  /** Ghosts are kept in the level's release order. */
+  private nextWaiting(ghosts: readonly Ghost[]): Ghost | undefined {
+    return ghosts.find((ghost) => ghost.houseState === 'waiting');
+  }
+
+  private release(ghost: Ghost): void {
+    ghost.houseState = 'leaving';
+  }
+
+  /** Starts the trip back inside once an eaten ghost reaches the entrance. */
+  tryEnter(ghost: Ghost): boolean {
+    const tile = ghost.getTilePos();
+    if (ghost.mode !== 'eaten' || tile.col !== this.entrance.col || tile.row !== this.entrance.row) {
+      return false;
+    }
+    ghost.houseState = 'entering';
+    return true;
+  }
+
+  /**
+   * Moves a ghost that is not loose in the maze. Returns false for active
+   * ghosts, which the maze AI moves instead.
+   */
+  moveGhost(ghost: Ghost, dtMs: number, globalMode: 'scatter' | 'chase'): boolean {
+    const houseDistance = levelSpeed(this.difficulty, this.difficulty.ghostHouseSpeedPct) * (dtMs / 1000);
+
+    switch (ghost.houseState) {
+      case 'active':
+        return false;
+
+      case 'waiting':
+        this.bob(ghost, houseDistance);
+        return true;
+
+      case 'leaving':
+        if (this.stepToward(ghost, this.exitPos, houseDistance)) {
+          ghost.houseState = 'active';
+          ghost.dir = this.exitDir;
+        }
+        return true;
+
+      case 'entering':
+        if (this.stepToward(ghost, this.homePos, GHOST_EATEN_SPEED * (dtMs / 1000))) {
+          ghost.respawn(globalMode);
+        }
+        return true;
+    }
+  }
+
+  private bob(ghost: Ghost, distance: number): void {
+    const base = ghost.spawnPos.y;
+    if (ghost.dir !== 'up' && ghost.dir !== 'down') ghost.dir = 'up';
+
+    ghost.pos.y += DIR_V[ghost.dir].y * distance;
+    if (ghost.pos.y <= base - GHOST_BOB_PX) {
+      ghost.pos.y = base - GHOST_BOB_PX;
+      ghost.dir = 'down';
+    } else if (ghost.pos.y >= base + GHOST_BOB_PX) {
+      ghost.pos.y = base + GHOST_BOB_PX;
+      ghost.dir = 'up';
+    }
+  }
+
+  /**
+   * Moves across the door's axis first, then along it, so paths run straight
+   * through the door. Returns true on arrival.
+   */
+  private stepToward(ghost: Ghost, target: Vec2, distance: number): boolean {
+    const axes: ('x' | 'y')[] = DIR_V[this.exitDir].x === 0 ? ['x', 'y'] : ['y', 'x'];
+
+    for (const axis of axes) {
+      const gap = target[axis] - ghost.pos[axis];
+      if (gap === 0) continue;
+
+      const moved = Math.min(Math.abs(gap), distance);
+      ghost.pos[axis] += Math.sign(gap) * moved;
+      if (axis === 'x') ghost.dir = gap > 0 ? 'right' : 'left';
+      else ghost.dir = gap > 0 ? 'down' : 'up';
+      return false;
+    }
+    return true;
+  }
+
+  toState(): HouseReleaseState {
+    return { ...this.state, dotCounters: { ...this.state.dotCounters } };
+  }
+
+  restoreState(state: HouseReleaseState): void {
+    this.state = { ...state, dotCounters: { ...state.dotCounters } };
+  }
+}
@@ -0,0 +1,61 @@
+import type { GhostName } from '../types';
+import { APOPHIS_SCHEMES, GHOST_COLORS, type ApophisScheme } from '../render/palette';
+import type { GhostBehavior } from './ghost-behavior';
+import {
+  raBehavior,
+  bastetBehavior,
+  thothBehavior,
+  anubisBehavior,
+  sekhmetBehavior,
+  sobekBehavior
+} from './ghost-behaviors';
+
+export interface GhostDefinition {
+  type: GhostName;
+  label: string;
+  behavior: GhostBehavior;
+  /** Body colors, normally an APOPHIS_SCHEMES entry. */
+  scheme: ApophisScheme;
+  /** Marker color in the maze editor. */
+  color: string;
+  /** Speeds up and stops scattering as the maze empties ("Cruise Elroy"), like Ra. */
+  enrages?: boolean;
+}
+
+const registry = new Map<GhostName, GhostDefinition>();
+
+/** Makes a ghost type available to mazes. Types can only be registered once. */
+export function registerGhost(definition: GhostDefinition): void {
+  if (registry.has(definition.type)) {
+    throw new Error(`Ghost type "${definition.type}" is already registered`);
+  }
+  registry.set(definition.type, definition);
+}
+
+export function isGhostRegistered(type: GhostName): boolean {
+  return registry.has(type);
+}
+
+export function getGhostDefinition(type: GhostName): GhostDefinition {
+  const definition = registry.get(type);
+  if (!definition) {
+    throw new Error(`Unknown ghost type "${type}"`);
+  }
+  return definition;
+}
+
+/** Registered types in registration order. */
+export function listGhostTypes(): GhostName[] {
+  return [...registry.keys()];
+}
+
+function registerBuiltIn(type: GhostName, label: string, behavior: GhostBehavior, enrages = false): void {
+  registerGhost({ type, label, behavior, scheme: APOPHIS_SCHEMES[type], color: GHOST_COLORS[type], enrages });
+}
+
+registerBuiltIn('ra', 'Ra', raBehavior, true);
+registerBuiltIn('bastet', 'Bastet', bastetBehavior);
+registerBuiltIn('thoth', 'Thoth', thothBehavior);
+registerBuiltIn('anubis', 'Anubis', anubisBehavior);
+registerBuiltIn('sekhmet', 'Sekhmet', sekhmetBehavior);
+registerBuiltIn('sobek', 'Sobek', sobekBehavior);
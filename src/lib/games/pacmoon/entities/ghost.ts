@@ -1,41 +1,55 @@
-import type { Dir, Vec2, TilePos, GhostMode, GhostName } from '../types';
-import { DIR_ORDER } from '../types';
+import type { Dir, Vec2, TilePos, GhostMode, GhostName, GhostHouseState, ElroyStage } from '../types';
 import { Entity } from './entity';
-import { GHOST_SPEED, GHOST_FRIGHTENED_SPEED, GHOST_EATEN_SPEED, GHOST_TUNNEL_SPEED, BASE_TILE, CENTER_EPS_PX } from '../engine/config';
-import type { MapGrid } from '../world/map-grid';
-
-const TS = BASE_TILE;
+import { GHOST_EATEN_SPEED } from '../engine/config';
+import { levelSpeed, type LevelDifficulty } from '../engine/difficulty';
+import { arcadeSteering, type Steering } from './steering';
+import type { GhostBehavior } from './ghost-behavior';
+import { getGhostDefinition } from './ghost-registry';
 
 export class Ghost extends Entity {
-  readonly name: GhostName;
+  /** Instance id from the level, e.g. `anubis` or `anubis-2`. */
+  readonly name: string;
+  readonly type: GhostName;
+  readonly behavior: GhostBehavior;
+  readonly enrages: boolean;
+  /** Kept in step with the pellets remaining for ghosts that enrage. */
+  elroyStage: ElroyStage = 0;
+  /** Set by the behavior each tick. */
+  speedModifier = 1;
   mode: GhostMode = 'scatter';
+  houseState: GhostHouseState = 'active';
+  steering: Steering = arcadeSteering;
   targetTile: TilePos = { col: 0, row: 0 };
   scatterTarget: TilePos;
   spawnPos: Vec2;
   frightenedTimeRemaining = 0;
 
   constructor(
-    name: GhostName,
+    name: string,
+    type: GhostName,
     pos: Vec2,
-    scatterTarget: TilePos
+    scatterTarget: TilePos,
+    speed: number
   ) {
-    super(pos, GHOST_SPEED);
+    super(pos, speed);
     this.name = name;
+    this.type = type;
+    const definition = getGhostDefinition(type);
+    this.behavior = definition.behavior;
+    this.enrages = definition.enrages ?? false;
     this.scatterTarget = scatterTarget;
     this.spawnPos = { ...pos };
-    
-    if (name === 'ra') {
-      this.dir = 'left';
-    } else {
-      this.dir = 'up';
-    }
+    this.dir = 'up';
   }
 
-  getSpeed(isInTunnel: boolean): number {
+  getSpeed(isInTunnel: boolean, difficulty: LevelDifficulty): number {
     if (this.mode === 'eaten') return GHOST_EATEN_SPEED;
-    if (this.mode === 'frightened') return GHOST_FRIGHTENED_SPEED;
-    if (isInTunnel) return GHOST_TUNNEL_SPEED;
-    return GHOST_SPEED;
+    if (this.mode === 'frightened') return levelSpeed(difficulty, difficulty.ghostFrightenedSpeedPct);
+    if (isInTunnel) return levelSpeed(difficulty, difficulty.ghostTunnelSpeedPct);
+    const speed = this.elroyStage > 0
+      ? levelSpeed(difficulty, difficulty.elroy[this.elroyStage - 1].speedPct)
+      : this.speed;
+    return speed * this.speedModifier;
   }
 
   setFrightened(durationMs: number): void {
@@ -59,8 +73,10 @@ export class Ghost extends Entity {
     this.frightenedTimeRemaining = 0;
   }
 
-  respawn(): void {
-    this.mode = 'scatter';
+  /** Revives an eaten ghost inside the house and sends it back out. */
+  respawn(mode: 'scatter' | 'chase'): void {
+    this.mode = mode;
+    this.houseState = 'leaving';
   }
 
   reverseDirection(): void {
@@ -72,14 +88,7 @@ export class Ghost extends Entity {
     }
   }
 
-  isAtTileCenter(): boolean {
-    const center = this.getTileCenter();
-    const dx = Math.abs(this.pos.x - center.x);
-    const dy = Math.abs(this.pos.y - center.y);
-    return dx <= CENTER_EPS_PX && dy <= CENTER_EPS_PX;
-  }
-
   canUseDoor(): boolean {
-    return this.mode === 'eaten';
+    return this.houseState !== 'active';
   }
 }
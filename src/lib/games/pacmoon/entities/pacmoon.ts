@@ -0,0 +1,126 @@
+import type { Dir, TilePos, Vec2 } from '../types';
+import { DIR_V } from '../types';
+import { CORNER_CUT_EPS_PX, SNAP_EPS_PX } from '../engine/config';
+import { levelSpeed, type LevelDifficulty } from '../engine/difficulty';
+import type { MapGrid } from '../world/map-grid';
+import { Entity } from './entity';
+
+const OPPOSITE: Record<Dir, Dir> = {
+  up: 'down',
+  down: 'up',
+  left: 'right',
+  right: 'left',
+  none: 'none'
+};
+
+/**
+ * The player. A pressed turn is kept for a short buffer and retried every
+ * tick until it can be taken. Turns are normally taken on tile centers, but
+ * one pressed up to CORNER_CUT_EPS_PX either side of a center cuts the
+ * corner: Pacmoon sets off in the new direction and slides back onto the
+ * center line at the same time, as in the arcade.
+ */
+export class Pacmoon extends Entity {
+  /** The turn waiting to be taken, and how much longer it waits. */
+  desiredDir: Dir = 'none';
+  turnBufferMs = 0;
+  /** Set by queueStop: Pacmoon halts on the next tile center it reaches. */
+  stopAtCenter = false;
+  /** The tile whose pellet was just eaten; Pacmoon is slower until it leaves it. */
+  eatingTile: TilePos | null = null;
+
+  constructor(pos: Vec2) {
+    super(pos, 0);
+  }
+
+  queueTurn(dir: Dir, bufferMs: number): void {
+    this.desiredDir = dir;
+    this.turnBufferMs = dir === 'none' ? 0 : bufferMs;
+    if (dir !== 'none') this.stopAtCenter = false;
+  }
+
+  /** Drops any queued turn and stops on the next tile center. */
+  queueStop(): void {
+    this.queueTurn('none', 0);
+    this.stopAtCenter = true;
+  }
+
+  onPelletEaten(tile: TilePos): void {
+    this.eatingTile = { ...tile };
+  }
+
+  isEating(): boolean {
+    if (!this.eatingTile) return false;
+    const tile = this.getTilePos();
+    return tile.col === this.eatingTile.col && tile.row === this.eatingTile.row;
+  }
+
+  getSpeed(difficulty: LevelDifficulty): number {
+    const pct = this.isEating() ? difficulty.pacmoonEatingSpeedPct : difficulty.pacmoonSpeedPct;
+    return levelSpeed(difficulty, pct);
+  }
+
+  update(dtMs: number, grid: MapGrid, difficulty: LevelDifficulty): void {
+    if (this.desiredDir !== 'none' && this.tryEarlyTurn(this.desiredDir, grid)) {
+      this.queueTurn('none', 0);
+    }
+
+    const distance = this.getSpeed(difficulty) * (dtMs / 1000);
+    this.slideToCenterLine(distance);
+    this.advance(distance, grid.width, (tile) => this.chooseAtCenter(tile, grid));
+
+    if (this.desiredDir !== 'none') {
+      this.turnBufferMs -= dtMs;
+      if (this.turnBufferMs <= 0) this.queueTurn('none', 0);
+    }
+    if (!this.isEating()) this.eatingTile = null;
+  }
+
+  private canEnter(tile: TilePos, dir: Dir, grid: MapGrid): boolean {
+    return grid.isWalkable({ col: tile.col + DIR_V[dir].x, row: tile.row + DIR_V[dir].y });
+  }
+
+  /** Reverses at any time, and turns within CORNER_CUT_EPS_PX of a center without waiting for it. */
+  private tryEarlyTurn(dir: Dir, grid: MapGrid): boolean {
+    if (dir === this.dir) return true;
+    if (this.dir === 'none') return false;
+    if (dir === OPPOSITE[this.dir]) {
+      this.dir = dir;
+      return true;
+    }
+
+    const axis = DIR_V[this.dir].x !== 0 ? 'x' : 'y';
+    if (Math.abs(this.pos[axis] - this.getTileCenter()[axis]) > CORNER_CUT_EPS_PX) return false;
+    if (!this.canEnter(this.getTilePos(), dir, grid)) return false;
+
+    this.dir = dir;
+    return true;
+  }
+
+  /** Takes the queued turn if it is open, otherwise keeps going until a wall. */
+  private chooseAtCenter(tile: TilePos, grid: MapGrid): Dir {
+    if (this.stopAtCenter) {
+      this.stopAtCenter = false;
+      return 'none';
+    }
+    if (this.desiredDir !== 'none' && this.canEnter(tile, this.desiredDir, grid)) {
+      const dir = this.desiredDir;
+      this.queueTurn('none', 0);
+      return dir;
+    }
+    return this.dir !== 'none' && this.canEnter(tile, this.dir, grid) ? this.dir : 'none';
+  }
+
+  /** After an early turn, closes in on the center line across the new direction. */
+  private slideToCenterLine(distance: number): void {
+    if (this.dir === 'none') return;
+
+    const across = DIR_V[this.dir].x !== 0 ? 'y' : 'x';
+    const center = this.getTileCenter();
+    const offset = center[across] - this.pos[across];
+    this.pos[across] += Math.sign(offset) * Math.min(Math.abs(offset), distance);
+    if (Math.abs(center[across] - this.pos[across]) < SNAP_EPS_PX) {
+      this.pos[across] = center[across];
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import type { Dir, TilePos } from '../types';
+import { DIR_ORDER, DIR_V } from '../types';
+import type { Rng } from '../engine/rng';
+import type { MapGrid } from '../world/map-grid';
+import type { NavigationMap } from '../world/navigation';
+import { getDistanceSquared } from '../world/pathfinding';
+
+/**
+ * How a ghost turns at a tile center. `arcade` is the original rule: step to
+ * the open neighbour closest to the target in a straight line. `pursuit`
+ * follows the true shortest path. `mixed` rolls between them.
+ */
+export type SteeringName = 'arcade' | 'pursuit' | 'mixed';
+
+export interface SteeringInput {
+  from: TilePos;
+  target: TilePos;
+  currentDir: Dir;
+  canUseDoor: boolean;
+}
+
+export interface SteeringWorld {
+  grid: MapGrid;
+  navigation: NavigationMap;
+  rng: Rng;
+}
+
+export type Steering = (input: SteeringInput, world: SteeringWorld) => Dir;
+
+const OPPOSITE: Record<Dir, Dir> = {
+  up: 'down',
+  down: 'up',
+  left: 'right',
+  right: 'left',
+  none: 'none'
+};
+
+/** Open neighbours in DIR_ORDER, without the reverse of `currentDir`. */
+function exits(input: SteeringInput, grid: MapGrid): { dir: Dir; tile: TilePos }[] {
+  const reverse = OPPOSITE[input.currentDir];
+  const result: { dir: Dir; tile: TilePos }[] = [];
+  for (const dir of DIR_ORDER) {
+    if (dir === reverse) continue;
+    const tile = { col: input.from.col + DIR_V[dir].x, row: input.from.row + DIR_V[dir].y };
+    if (tile.row < 0 || tile.row >= grid.rows) continue;
+    if (grid.isWalkableForGhost(tile, input.canUseDoor)) result.push({ dir, tile });
+  }
+  return result;
+}
+
+/** Dead ends are the only place a ghost turns around on its own. */
+function reverseIfOpen(input: SteeringInput, grid: MapGrid): Dir {
+  const reverse = OPPOSITE[input.currentDir];
+  if (reverse === 'none') return 'none';
+  const tile = { col: input.from.col + DIR_V[reverse].x, row: input.from.row + DIR_V[reverse].y };
+  return grid.isWalkableForGhost(tile, input.canUseDoor) ? reverse : 'none';
+}
+
+/** Ties go up, left, down, right, as in the arcade. */
+export const arcadeSteering: Steering = (input, { grid }) => {
+  let best: Dir = 'none';
+  let bestDistance = Infinity;
+  for (const { dir, tile } of exits(input, grid)) {
+    const distance = getDistanceSquared(tile, input.target);
+    if (distance < bestDistance) {
+      best = dir;
+      bestDistance = distance;
+    }
+  }
+  return best !== 'none' ? best : reverseIfOpen(input, grid);
+};
+
+export const pursuitSteering: Steering = (input, { navigation }) =>
+  navigation.nextDir(input.from, input.target, input.currentDir, input.canUseDoor);
+
+/** Pursues with probability `pursuitWeight` at each decision, otherwise steers like the arcade. */
+export function mixedSteering(pursuitWeight: number): Steering {
+  return (input, world) =>
+    world.rng.next() < pursuitWeight ? pursuitSteering(input, world) : arcadeSteering(input, world);
+}
+
+/** Frightened ghosts ignore their target and pick a random way at each junction. */
+export const frightenedSteering: Steering = (input, { grid, rng }) => {
+  const options = exits(input, grid);
+  if (options.length === 0) return reverseIfOpen(input, grid);
+  if (options.length === 1) return options[0].dir;
+  return options[rng.nextInt(options.length)].dir;
+};
+
+export function createSteering(name: SteeringName, pursuitWeight: number): Steering {
+  switch (name) {
+    case 'arcade':
+      return arcadeSteering;
+    case 'pursuit':
+      return pursuitSteering;
+    case 'mixed':
+      return mixedSteering(pursuitWeight);
+  }
+}
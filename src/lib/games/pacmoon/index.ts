@@ -1,2 +1,7 @@
-export { GameEngine, type GameCallbacks } from './engine/game-engine';
-export type { HudState, GamePhase, Dir } from './types';
+export { GameEngine, type GameCallbacks, type GameEngineOptions } from './engine/game-engine';
+export { Simulation, type SimulationOptions } from './engine/simulation';
+export { GameEventEmitter, type GameEvent, type GameEventMap, type GameEventSource } from './engine/events';
+export { logGameEvents } from './engine/event-logger';
+export { ReplayPlayer } from './engine/replay-player';
+export { parseReplay, ReplayFormatError, type ReplayFile } from './engine/replay';
+export type { HudState, GamePhase, GameIntent, GameMode, Dir } from './types';
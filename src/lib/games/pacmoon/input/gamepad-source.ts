@@ -0,0 +1,159 @@
+import type { Dir, GameIntent } from '../types';
+import type { InputSink, InputSource } from './input-source';
+
+// Standard gamepad mapping.
+const BUTTON_SELECT = 8;
+const BUTTON_START = 9;
+const BUTTON_UP = 12;
+const BUTTON_DOWN = 13;
+const BUTTON_LEFT = 14;
+const BUTTON_RIGHT = 15;
+
+export const DEFAULT_DEADZONE = 0.3;
+
+/** The parts of a Gamepad this source reads, so tests can pass plain objects. */
+export interface GamepadLike {
+  connected: boolean;
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean }[];
+}
+
+export interface GamepadSourceOptions {
+  /** How far, 0–1, the stick must move from center before it counts. */
+  deadzone?: number;
+  /** Defaults to navigator.getGamepads; pass a fake for testing. */
+  getGamepads?: () => readonly (GamepadLike | null)[];
+  /**
+   * Whether Pacmoon could head `dir` right now. With it, a diagonal picks its
+   * weaker axis when the stronger one is walled off.
+   */
+  canMove?: (dir: Dir) => boolean;
+  /**
+   * Whether a game is under way. Start pauses one; otherwise, on the start
+   * and game-over screens, it confirms. Without it Start always pauses.
+   */
+  inGame?: () => boolean;
+}
+
+function browserGamepads(): readonly (GamepadLike | null)[] {
+  return typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+}
+
+/**
+ * D-pad and left stick steer; Start starts or pauses and Select confirms. The Gamepad
+ * API has no input events, so connected pads are polled once per animation
+ * frame, and pads can come and go at any time.
+ */
+export class GamepadSource implements InputSource {
+  private readonly deadzone: number;
+  private readonly getGamepads: () => readonly (GamepadLike | null)[];
+  private readonly canMove: ((dir: Dir) => boolean) | undefined;
+  private readonly inGame: () => boolean;
+  private sink: InputSink | null = null;
+  /** Buttons down on the last poll, as "pad:button", so intents fire once per press. */
+  private held = new Set<string>();
+  private frame: number | null = null;
+  private connectHandler = () => this.startPolling();
+
+  constructor(options: GamepadSourceOptions = {}) {
+    this.deadzone = options.deadzone ?? DEFAULT_DEADZONE;
+    this.getGamepads = options.getGamepads ?? browserGamepads;
+    this.canMove = options.canMove;
+    this.inGame = options.inGame ?? (() => true);
+  }
+
+  attach(sink: InputSink): void {
+    this.sink = sink;
+    if (typeof window === 'undefined') return;
+
+    window.addEventListener('gamepadconnected', this.connectHandler);
+    // Pads plugged in before the page loaded announce themselves on first use,
+    // but may already be listed.
+    if (this.getGamepads().some((pad) => pad?.connected)) {
+      this.startPolling();
+    }
+  }
+
+  detach(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('gamepadconnected', this.connectHandler);
+    }
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.sink = null;
+    this.held.clear();
+  }
+
+  /** Reads every pad once. Returns false when none are connected. */
+  poll(): boolean {
+    const pads = this.getGamepads();
+    const held = new Set<string>();
+    let stick = { x: 0, y: 0 };
+    let connected = false;
+    const buttonIntents: [button: number, intent: GameIntent][] = [
+      [BUTTON_START, this.inGame() ? 'pause' : 'confirm'],
+      [BUTTON_SELECT, 'confirm']
+    ];
+
+    pads.forEach((pad, index) => {
+      if (!pad?.connected) return;
+      connected = true;
+
+      const pressed = (button: number) => pad.buttons[button]?.pressed ?? false;
+      for (const [button, intent] of buttonIntents) {
+        if (!pressed(button)) continue;
+        const key = `${index}:${button}`;
+        held.add(key);
+        if (!this.held.has(key)) this.sink?.intent(intent);
+      }
+
+      // The first pad being steered wins.
+      if (stick.x !== 0 || stick.y !== 0) return;
+      const dpad = {
+        x: Number(pressed(BUTTON_RIGHT)) - Number(pressed(BUTTON_LEFT)),
+        y: Number(pressed(BUTTON_DOWN)) - Number(pressed(BUTTON_UP))
+      };
+      stick = dpad.x !== 0 || dpad.y !== 0 ? dpad : this.readStick(pad);
+    });
+
+    this.held = held;
+    const dir = this.chooseDir(stick.x, stick.y);
+    if (dir !== 'none') this.sink?.direction(dir);
+    return connected;
+  }
+
+  private startPolling(): void {
+    if (this.frame !== null || !this.sink) return;
+
+    const loop = () => {
+      // Stop when the last pad goes; gamepadconnected starts us again.
+      this.frame = this.poll() ? requestAnimationFrame(loop) : null;
+    };
+    this.frame = requestAnimationFrame(loop);
+  }
+
+  /** The left stick, with each axis zeroed inside the deadzone. */
+  private readStick(pad: GamepadLike): { x: number; y: number } {
+    const [x = 0, y = 0] = pad.axes;
+    return {
+      x: Math.abs(x) >= this.deadzone ? x : 0,
+      y: Math.abs(y) >= this.deadzone ? y : 0
+    };
+  }
+
+  /** The stronger axis, or the weaker one if only it leads somewhere open. */
+  private chooseDir(x: number, y: number): Dir {
+    if (x === 0 && y === 0) return 'none';
+
+    const horizontal: Dir = x > 0 ? 'right' : 'left';
+    const vertical: Dir = y > 0 ? 'down' : 'up';
+    if (x === 0) return vertical;
+    if (y === 0) return horizontal;
+
+    const [major, minor] = Math.abs(x) >= Math.abs(y) ? [horizontal, vertical] : [vertical, horizontal];
+    if (this.canMove && !this.canMove(major) && this.canMove(minor)) return minor;
+    return major;
+  }
+}
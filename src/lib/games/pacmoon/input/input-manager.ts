@@ -1,85 +1,44 @@
-import type { Dir } from '../types';
-
-export interface InputState {
-  desiredDir: Dir;
-}
-
-export class InputManager {
+import type { Dir, GameIntent } from '../types';
+import type { InputSink, InputSource } from './input-source';
+
+/**
+ * Merges every input source into one desired-direction stream: the latest
+ * direction from any source wins. Intents go straight to `onIntent`.
+ */
+export class InputManager implements InputSink {
   private desiredDir: Dir = 'none';
-  private keydownHandler: (e: KeyboardEvent) => void;
-  private touchStartPos: { x: number; y: number } | null = null;
+  private readonly sources: InputSource[];
+  private readonly onIntent: ((intent: GameIntent) => void) | undefined;
 
-  constructor() {
-    this.keydownHandler = this.handleKeyDown.bind(this);
+  constructor(sources: InputSource[], onIntent?: (intent: GameIntent) => void) {
+    this.sources = sources;
+    this.onIntent = onIntent;
   }
 
   attach(): void {
-    window.addEventListener('keydown', this.keydownHandler);
-  }
-
-  detach(): void {
-    window.removeEventListener('keydown', this.keydownHandler);
-  }
-
-  private handleKeyDown(e: KeyboardEvent): void {
-    switch (e.code) {
-      case 'ArrowUp':
-      case 'KeyW':
-        this.desiredDir = 'up';
-        e.preventDefault();
-        break;
-      case 'ArrowDown':
-      case 'KeyS':
-        this.desiredDir = 'down';
-        e.preventDefault();
-        break;
-      case 'ArrowLeft':
-      case 'KeyA':
-        this.desiredDir = 'left';
-        e.preventDefault();
-        break;
-      case 'ArrowRight':
-      case 'KeyD':
-        this.desiredDir = 'right';
-        e.preventDefault();
-        break;
+    for (const source of this.sources) {
+      source.attach(this);
     }
   }
 
-  handleTouchStart(x: number, y: number): void {
-    this.touchStartPos = { x, y };
-  }
-
-  handleTouchEnd(x: number, y: number): void {
-    if (!this.touchStartPos) return;
-
-    const dx = x - this.touchStartPos.x;
-    const dy = y - this.touchStartPos.y;
-    const minSwipe = 30;
-
-    if (Math.abs(dx) > Math.abs(dy)) {
-      if (Math.abs(dx) > minSwipe) {
-        this.desiredDir = dx > 0 ? 'right' : 'left';
-      }
-    } else {
-      if (Math.abs(dy) > minSwipe) {
-        this.desiredDir = dy > 0 ? 'down' : 'up';
-      }
+  detach(): void {
+    for (const source of this.sources) {
+      source.detach();
     }
-
-    this.touchStartPos = null;
   }
 
-  setDirection(dir: Dir): void {
+  direction(dir: Dir): void {
     this.desiredDir = dir;
   }
 
-  getDesiredDir(): Dir {
-    return this.desiredDir;
+  intent(intent: GameIntent): void {
+    this.onIntent?.(intent);
   }
 
+  /** The last direction pressed since the previous call; each press is returned once. */
   consumeDir(): Dir {
     const dir = this.desiredDir;
+    this.desiredDir = 'none';
     return dir;
   }
 }
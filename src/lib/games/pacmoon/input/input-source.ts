@@ -0,0 +1,16 @@
+import type { Dir, GameIntent } from '../types';
+
+/** Where input sources send what the player asked for. */
+export interface InputSink {
+  direction(dir: Dir): void;
+  intent(intent: GameIntent): void;
+}
+
+/**
+ * One kind of controller. Sources translate their device into directions
+ * and intents and know nothing about the game; InputManager merges them.
+ */
+export interface InputSource {
+  attach(sink: InputSink): void;
+  detach(): void;
+}
@@ -0,0 +1,50 @@
+import type { Dir, GameIntent } from '../types';
+import type { InputSink, InputSource } from './input-source';
+
+const KEY_DIRS: Record<string, Dir> = {
+  ArrowUp: 'up',
+  KeyW: 'up',
+  ArrowDown: 'down',
+  KeyS: 'down',
+  ArrowLeft: 'left',
+  KeyA: 'left',
+  ArrowRight: 'right',
+  KeyD: 'right'
+};
+
+const KEY_INTENTS: Record<string, GameIntent> = {
+  Space: 'confirm',
+  Escape: 'pause',
+  KeyP: 'pause'
+};
+
+/** Arrow keys and WASD steer; Space confirms; Escape and P pause. */
+export class KeyboardSource implements InputSource {
+  private sink: InputSink | null = null;
+  private keydownHandler = (e: KeyboardEvent) => this.handleKeyDown(e);
+
+  attach(sink: InputSink): void {
+    this.sink = sink;
+    window.addEventListener('keydown', this.keydownHandler);
+  }
+
+  detach(): void {
+    window.removeEventListener('keydown', this.keydownHandler);
+    this.sink = null;
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    const dir = KEY_DIRS[e.code];
+    if (dir) {
+      this.sink?.direction(dir);
+      e.preventDefault();
+      return;
+    }
+
+    const intent = KEY_INTENTS[e.code];
+    // Held keys repeat; only a fresh press should toggle pause.
+    if (intent && !e.repeat) {
+      this.sink?.intent(intent);
+    }
+  }
+}
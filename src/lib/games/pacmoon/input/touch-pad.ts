@@ -0,0 +1,79 @@
+import type { Dir, Vec2 } from '../types';
+import type { Viewport } from '../engine/viewport';
+
+export type Handedness = 'left' | 'right';
+
+/** An on-screen pad, in CSS px relative to the game view. */
+export interface TouchPad {
+  center: Vec2;
+  radius: number;
+  /** Touches this close to the center steer nowhere. */
+  deadzone: number;
+}
+
+export interface TouchLayout {
+  pad: TouchPad;
+  /** Center of the pause/confirm buttons, on the other side from the pad. */
+  buttons: Vec2;
+  /** True when no letterbox band was big enough and the controls sit over the maze. */
+  overlapsMaze: boolean;
+}
+
+const MIN_RADIUS_PX = 40;
+const MAX_RADIUS_PX = 96;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Places the pad in the letterbox band that computeViewport leaves beside or
+ * below the maze, on the player's chosen side, with the buttons opposite.
+ * The pad shrinks to fit the band down to MIN_RADIUS_PX; only if neither band
+ * is that big does it fall back to a corner over the maze.
+ */
+export function computeTouchPad(vp: Viewport, hand: Handedness): TouchLayout {
+  const minDim = Math.min(vp.vwCss, vp.vhCss);
+  const preferred = clamp(minDim * 0.18, MIN_RADIUS_PX, MAX_RADIUS_PX);
+  const margin = clamp(minDim * 0.04, 12, 24);
+
+  const mazeBottom = vp.offsetCssY + vp.worldH * vp.scaleCss;
+  const bottomBand = vp.vhCss - mazeBottom;
+  const sideBand = vp.offsetCssX;
+  const fits = (band: number) => Math.min(preferred, (band - 2 * margin) / 2);
+
+  let radius = preferred;
+  let overlapsMaze = false;
+  let inset = margin + radius;
+  if (bottomBand >= sideBand && fits(bottomBand) >= MIN_RADIUS_PX) {
+    radius = fits(bottomBand);
+    inset = margin + radius;
+  } else if (fits(sideBand) >= MIN_RADIUS_PX) {
+    // Center the pad across its band so it stays off the maze edge.
+    radius = fits(sideBand);
+    inset = sideBand / 2;
+  } else {
+    overlapsMaze = true;
+  }
+
+  const y = vp.vhCss - margin - radius;
+  const left = inset;
+  const right = vp.vwCss - inset;
+  return {
+    pad: { center: { x: hand === 'left' ? left : right, y }, radius, deadzone: radius * 0.25 },
+    buttons: { x: hand === 'left' ? right : left, y },
+    overlapsMaze
+  };
+}
+
+/** The pad direction under `point`, along whichever axis it is further out on. */
+export function touchDirFromPoint(pad: TouchPad, point: Vec2): Dir {
+  const dx = point.x - pad.center.x;
+  const dy = point.y - pad.center.y;
+  if (Math.hypot(dx, dy) < pad.deadzone) return 'none';
+
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? 'right' : 'left';
+  }
+  return dy > 0 ? 'down' : 'up';
+}
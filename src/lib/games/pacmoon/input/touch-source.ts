@@ -0,0 +1,82 @@
+import type { InputSink, InputSource } from './input-source';
+
+/** Shortest swipe, in CSS px, that counts as a direction. */
+const MIN_SWIPE_PX = 30;
+
+/** Touches starting inside an element with this attribute are left to it, e.g. the on-screen pad. */
+const NO_SWIPE_ATTRIBUTE = 'data-no-swipe';
+
+/**
+ * Swipes anywhere on `element` steer along their longer axis. A swipe counts
+ * as soon as the finger has moved far enough, and the finger can keep
+ * swiping without lifting: each new swipe is measured from where the last
+ * one was recognized.
+ */
+export class TouchSource implements InputSource {
+  private readonly element: HTMLElement;
+  private sink: InputSink | null = null;
+  private anchor: { id: number; x: number; y: number } | null = null;
+  private touchStartHandler = (e: TouchEvent) => this.handleTouchStart(e);
+  private touchMoveHandler = (e: TouchEvent) => this.handleTouchMove(e);
+  private touchEndHandler = (e: TouchEvent) => this.handleTouchEnd(e);
+
+  constructor(element: HTMLElement) {
+    this.element = element;
+  }
+
+  attach(sink: InputSink): void {
+    this.sink = sink;
+    this.element.addEventListener('touchstart', this.touchStartHandler);
+    this.element.addEventListener('touchmove', this.touchMoveHandler);
+    this.element.addEventListener('touchend', this.touchEndHandler);
+    this.element.addEventListener('touchcancel', this.touchEndHandler);
+  }
+
+  detach(): void {
+    this.element.removeEventListener('touchstart', this.touchStartHandler);
+    this.element.removeEventListener('touchmove', this.touchMoveHandler);
+    this.element.removeEventListener('touchend', this.touchEndHandler);
+    this.element.removeEventListener('touchcancel', this.touchEndHandler);
+    this.sink = null;
+    this.anchor = null;
+  }
+
+  private handleTouchStart(e: TouchEvent): void {
+    if (this.anchor) return;
+    const touch = e.changedTouches[0];
+    if (!touch) return;
+    if (touch.target instanceof Element && touch.target.closest(`[${NO_SWIPE_ATTRIBUTE}]`)) return;
+    this.anchor = { id: touch.identifier, x: touch.clientX, y: touch.clientY };
+  }
+
+  private handleTouchMove(e: TouchEvent): void {
+    const touch = this.findTouch(e);
+    if (touch) this.trySwipe(touch);
+  }
+
+  private handleTouchEnd(e: TouchEvent): void {
+    const touch = this.findTouch(e);
+    if (!touch) return;
+    this.trySwipe(touch);
+    this.anchor = null;
+  }
+
+  private findTouch(e: TouchEvent): Touch | undefined {
+    const anchor = this.anchor;
+    return anchor ? Array.from(e.changedTouches).find((touch) => touch.identifier === anchor.id) : undefined;
+  }
+
+  private trySwipe(touch: Touch): void {
+    if (!this.anchor) return;
+    const dx = touch.clientX - this.anchor.x;
+    const dy = touch.clientY - this.anchor.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < MIN_SWIPE_PX) return;
+
+    if (Math.abs(dx) > Math.abs(dy)) {
+      this.sink?.direction(dx > 0 ? 'right' : 'left');
+    } else {
+      this.sink?.direction(dy > 0 ? 'down' : 'up');
+    }
+    this.anchor = { ...this.anchor, x: touch.clientX, y: touch.clientY };
+  }
+}
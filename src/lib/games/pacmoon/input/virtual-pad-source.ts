@@ -0,0 +1,51 @@
+import type { Dir, GameIntent } from '../types';
+import type { InputSink, InputSource } from './input-source';
+
+/**
+ * Input from on-screen controls. The controls call hold() as the finger
+ * moves; the held direction is sent again every frame until release(), so
+ * a turn pressed early stays queued until Pacmoon reaches it.
+ */
+export class VirtualPadSource implements InputSource {
+  private sink: InputSink | null = null;
+  private held: Dir = 'none';
+  private frame: number | null = null;
+
+  attach(sink: InputSink): void {
+    this.sink = sink;
+  }
+
+  detach(): void {
+    this.release();
+    this.sink = null;
+  }
+
+  hold(dir: Dir): void {
+    if (dir === 'none') {
+      this.release();
+      return;
+    }
+    if (dir !== this.held) this.sink?.direction(dir);
+    this.held = dir;
+
+    if (this.frame === null) {
+      const repeat = () => {
+        this.sink?.direction(this.held);
+        this.frame = requestAnimationFrame(repeat);
+      };
+      this.frame = requestAnimationFrame(repeat);
+    }
+  }
+
+  release(): void {
+    this.held = 'none';
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  press(intent: GameIntent): void {
+    this.sink?.intent(intent);
+  }
+}
@@ -0,0 +1,78 @@
+import type { TilePos } from '../types';
+import { BASE_TILE } from '../engine/config';
+import type { LevelData } from '../world/level-data';
+import { MapGrid } from '../world/map-grid';
+import { PALETTE } from './palette';
+import { getGhostDefinition, isGhostRegistered } from '../entities/ghost-registry';
+import { drawMaze, drawPellets, drawPacmoon, drawGhost } from './renderer';
+
+const TS = BASE_TILE;
+/** Any point in the chomp cycle where the mouth is visibly open. */
+const MOUTH_OPEN_TIME_MS = 50;
+
+function tileCenter(pos: TilePos): { x: number; y: number } {
+	return { x: (pos.col + 0.5) * TS, y: (pos.row + 0.5) * TS };
+}
+
+function drawGridLines(ctx: CanvasRenderingContext2D, cols: number, rows: number): void {
+	ctx.strokeStyle = PALETTE.EDITOR_GRID;
+	ctx.lineWidth = 0.5;
+	ctx.beginPath();
+	for (let col = 0; col <= cols; col++) {
+		ctx.moveTo(col * TS, 0);
+		ctx.lineTo(col * TS, rows * TS);
+	}
+	for (let row = 0; row <= rows; row++) {
+		ctx.moveTo(0, row * TS);
+		ctx.lineTo(cols * TS, row * TS);
+	}
+	ctx.stroke();
+}
+
+function drawScatterTarget(ctx: CanvasRenderingContext2D, pos: TilePos, color: string): void {
+	const { x, y } = tileCenter(pos);
+	ctx.strokeStyle = color;
+	ctx.lineWidth = 1.5;
+	ctx.strokeRect(pos.col * TS + 2, pos.row * TS + 2, TS - 4, TS - 4);
+	ctx.beginPath();
+	ctx.moveTo(x - 3, y);
+	ctx.lineTo(x + 3, y);
+	ctx.moveTo(x, y - 3);
+	ctx.lineTo(x, y + 3);
+	ctx.stroke();
+}
+
+/** Draws a maze being edited: tiles, grid lines, the ghost house and every marker. */
+export function drawEditorScene(
+	ctx: CanvasRenderingContext2D,
+	level: LevelData,
+	hover: TilePos | null
+): void {
+	const grid = new MapGrid(level);
+	drawMaze(ctx, grid);
+	drawPellets(ctx, grid, true);
+	drawGridLines(ctx, level.cols, level.rows);
+
+	const house = level.ghostHouse;
+	ctx.strokeStyle = PALETTE.DOOR;
+	ctx.lineWidth = 1;
+	ctx.setLineDash([2, 2]);
+	ctx.strokeRect(house.col * TS, house.row * TS, house.width * TS, house.height * TS);
+	ctx.setLineDash([]);
+
+	// Imported mazes may name unknown ghosts; the issues list reports those.
+	const ghosts = level.ghosts.filter((ghost) => isGhostRegistered(ghost.type));
+	for (const ghost of ghosts) {
+		drawScatterTarget(ctx, ghost.scatter, getGhostDefinition(ghost.type).color);
+	}
+	for (const ghost of ghosts) {
+		drawGhost(ctx, tileCenter(ghost.spawn), ghost.type, 'scatter', 'left', 0, 0);
+	}
+	drawPacmoon(ctx, tileCenter(level.pacmoonSpawn), 'right', MOUTH_OPEN_TIME_MS);
+
+	if (hover) {
+		ctx.strokeStyle = PALETTE.EDITOR_CURSOR;
+		ctx.lineWidth = 1;
+		ctx.strokeRect(hover.col * TS + 0.5, hover.row * TS + 0.5, TS - 1, TS - 1);
+	}
+}
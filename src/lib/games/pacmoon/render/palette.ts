@@ -5,6 +5,8 @@ export const PALETTE = {
   // Walls (moon-gray double-stroke style)
   WALL_OUTER: '#5a5a5a',
   WALL_INNER: '#8b8b8b',
+  WALL_FLASH_OUTER: '#d8d8d8',
+  WALL_FLASH_INNER: '#ffffff',
 
   // Pacmoon
   PACMOON: '#ffff00',
@@ -14,6 +16,8 @@ export const PALETTE = {
   BASTET: '#ffb8ff', // Pink - Cat goddess
   THOTH: '#00ffff', // Cyan - Wisdom god
   ANUBIS: '#ffb852', // Orange - Jackal god
+  SEKHMET: '#ff6f3c', // Flame - Lioness goddess
+  SOBEK: '#3cb371', // Green - Crocodile god
 
   // Ghost modes
   FRIGHTENED: '#2121de',
@@ -24,6 +28,13 @@ export const PALETTE = {
   PELLET: '#ffb897',
   POWER_PELLET: '#ffb897',
 
+  // Bonus artifacts
+  ARTIFACT_GOLD: '#ffd24a',
+  ARTIFACT_GOLD_DARK: '#b8860b',
+  ARTIFACT_LAPIS: '#2652c9',
+  ARTIFACT_TURQUOISE: '#40e0d0',
+  SCORE_POPUP: '#ffb8de',
+
   // Ghost house door
   DOOR: '#ffb8de',
 
@@ -34,7 +45,14 @@ export const PALETTE = {
 
   // Ghost eyes
   EYE_WHITE: '#ffffff',
-  EYE_PUPIL: '#1a1a1a'
+  EYE_PUPIL: '#1a1a1a',
+
+  // Tap-to-move route
+  ROUTE: '#ffff00',
+
+  // Level editor
+  EDITOR_GRID: '#1f1f3a',
+  EDITOR_CURSOR: '#ffff00'
 };
 
 import type { GhostName } from '../types';
@@ -43,18 +61,24 @@ export const GHOST_COLORS: Record<GhostName, string> = {
   ra: PALETTE.RA,
   bastet: PALETTE.BASTET,
   thoth: PALETTE.THOTH,
-  anubis: PALETTE.ANUBIS
+  anubis: PALETTE.ANUBIS,
+  sekhmet: PALETTE.SEKHMET,
+  sobek: PALETTE.SOBEK
 };
 
-export const APOPHIS_SCHEMES: Record<GhostName, {
+export interface ApophisScheme {
   body: string;
   accent: string;
   disk: string;
   eye: string;
   tongue: string;
-}> = {
+}
+
+export const APOPHIS_SCHEMES: Record<GhostName, ApophisScheme> = {
   ra: { body: '#C0392B', accent: '#D4AF37', disk: '#FFD166', eye: '#0B0B0B', tongue: '#FF4D6D' },
   bastet: { body: '#7D3C98', accent: '#D4AF37', disk: '#F7D6FF', eye: '#120016', tongue: '#FF4D6D' },
   thoth: { body: '#1565C0', accent: '#D4AF37', disk: '#4DD0E1', eye: '#00121F', tongue: '#FF4D6D' },
-  anubis: { body: '#C97C2B', accent: '#B08D57', disk: '#FFE29A', eye: '#1A0F00', tongue: '#FF4D6D' }
+  anubis: { body: '#C97C2B', accent: '#B08D57', disk: '#FFE29A', eye: '#1A0F00', tongue: '#FF4D6D' },
+  sekhmet: { body: '#E2583E', accent: '#D4AF37', disk: '#FFB347', eye: '#1A0500', tongue: '#FF4D6D' },
+  sobek: { body: '#2E8B57', accent: '#B08D57', disk: '#A8E6CF', eye: '#001A0B', tongue: '#FF4D6D' }
 };
@@ -1,14 +1,20 @@
-import type { Dir, Vec2, TilePos, GhostMode, GhostName } from '../types';
+import type { Dir, Vec2, TilePos, GhostMode, GhostName, ArtifactKind, ScorePopup } from '../types';
 import {
 	BASE_TILE,
 	PACMOON_RADIUS,
 	GHOST_RADIUS,
 	MOUTH_OPEN_MAX_DEG,
 	MOUTH_OPEN_MIN_DEG,
-	MOUTH_CYCLE_MS
+	MOUTH_CYCLE_MS,
+	LEVEL_CLEAR_DURATION_MS,
+	LEVEL_FLASH_PERIOD_MS,
+	SCORE_POPUP_MS
 } from '../engine/config';
-import { PALETTE, APOPHIS_SCHEMES } from './palette';
+import { PALETTE } from './palette';
+import { getGhostDefinition } from '../entities/ghost-registry';
 import type { MapGrid } from '../world/map-grid';
+import type { GhostHouse } from '../world/level-data';
+import type { Simulation } from '../engine/simulation';
 
 const TS = BASE_TILE;
 
@@ -20,13 +26,13 @@ const DIR_ANGLE: Record<Dir, number> = {
 	none: 0
 };
 
-export function drawMaze(ctx: CanvasRenderingContext2D, grid: MapGrid): void {
+export function drawMaze(ctx: CanvasRenderingContext2D, grid: MapGrid, flash = false): void {
 	grid.forEachTile((pos, tile) => {
 		const x = pos.col * TS;
 		const y = pos.row * TS;
 
 		if (tile === 'wall') {
-			drawWallTile(ctx, pos, grid);
+			drawWallTile(ctx, pos, flash);
 		} else if (tile === 'door') {
 			ctx.fillStyle = PALETTE.DOOR;
 			ctx.fillRect(x, y + TS * 0.4, TS, TS * 0.2);
@@ -34,14 +40,14 @@ export function drawMaze(ctx: CanvasRenderingContext2D, grid: MapGrid): void {
 	});
 }
 
-function drawWallTile(ctx: CanvasRenderingContext2D, pos: TilePos, grid: MapGrid): void {
+function drawWallTile(ctx: CanvasRenderingContext2D, pos: TilePos, flash: boolean): void {
 	const x = pos.col * TS;
 	const y = pos.row * TS;
 
-	ctx.fillStyle = PALETTE.WALL_OUTER;
+	ctx.fillStyle = flash ? PALETTE.WALL_FLASH_OUTER : PALETTE.WALL_OUTER;
 	ctx.fillRect(x + 2, y + 2, TS - 4, TS - 4);
 
-	ctx.fillStyle = PALETTE.WALL_INNER;
+	ctx.fillStyle = flash ? PALETTE.WALL_FLASH_INNER : PALETTE.WALL_INNER;
 	ctx.fillRect(x + 4, y + 4, TS - 8, TS - 8);
 
 	ctx.fillStyle = PALETTE.BACKGROUND;
@@ -114,6 +120,151 @@ function drawAsteroid(
 	ctx.restore();
 }
 
+/** Draws a bonus artifact centered on (cx, cy), about `size` px across. */
+export function drawArtifact(
+	ctx: CanvasRenderingContext2D,
+	kind: ArtifactKind,
+	cx: number,
+	cy: number,
+	size: number
+): void {
+	const s = size / 2;
+
+	ctx.save();
+	ctx.translate(cx, cy);
+	ctx.lineCap = 'round';
+	ctx.lineJoin = 'round';
+
+	switch (kind) {
+		case 'moon-rock':
+			drawAsteroid(ctx, 0, 0, s * 0.9, 5);
+			ctx.fillStyle = PALETTE.ARTIFACT_TURQUOISE;
+			ctx.beginPath();
+			ctx.arc(-s * 0.3, -s * 0.35, s * 0.12, 0, Math.PI * 2);
+			ctx.fill();
+			break;
+
+		case 'scarab':
+			// Legs, then the shell split down the middle, then the head.
+			ctx.strokeStyle = PALETTE.ARTIFACT_GOLD_DARK;
+			ctx.lineWidth = Math.max(1, s * 0.12);
+			ctx.beginPath();
+			for (const y of [-0.3, 0.1, 0.5]) {
+				ctx.moveTo(-s * 0.9, s * (y - 0.15));
+				ctx.lineTo(s * 0.9, s * (y + 0.15));
+				ctx.moveTo(s * 0.9, s * (y - 0.15));
+				ctx.lineTo(-s * 0.9, s * (y + 0.15));
+			}
+			ctx.stroke();
+			ctx.fillStyle = PALETTE.ARTIFACT_LAPIS;
+			ctx.beginPath();
+			ctx.ellipse(0, s * 0.15, s * 0.6, s * 0.75, 0, 0, Math.PI * 2);
+			ctx.fill();
+			ctx.strokeStyle = PALETTE.ARTIFACT_GOLD;
+			ctx.beginPath();
+			ctx.moveTo(0, -s * 0.3);
+			ctx.lineTo(0, s * 0.85);
+			ctx.stroke();
+			ctx.fillStyle = PALETTE.ARTIFACT_GOLD;
+			ctx.beginPath();
+			ctx.arc(0, -s * 0.65, s * 0.3, 0, Math.PI * 2);
+			ctx.fill();
+			break;
+
+		case 'ankh':
+			ctx.strokeStyle = PALETTE.ARTIFACT_GOLD;
+			ctx.lineWidth = Math.max(1.5, s * 0.28);
+			ctx.beginPath();
+			ctx.ellipse(0, -s * 0.5, s * 0.3, s * 0.4, 0, 0, Math.PI * 2);
+			ctx.moveTo(0, -s * 0.1);
+			ctx.lineTo(0, s * 0.95);
+			ctx.moveTo(-s * 0.65, s * 0.1);
+			ctx.lineTo(s * 0.65, s * 0.1);
+			ctx.stroke();
+			break;
+
+		case 'eye-of-horus':
+			ctx.strokeStyle = PALETTE.ARTIFACT_LAPIS;
+			ctx.lineWidth = Math.max(1, s * 0.14);
+			// Brow, the almond of the eye, then the falcon markings below it.
+			ctx.beginPath();
+			ctx.moveTo(-s * 0.9, -s * 0.55);
+			ctx.quadraticCurveTo(0, -s * 0.85, s * 0.9, -s * 0.5);
+			ctx.stroke();
+			ctx.fillStyle = PALETTE.EYE_WHITE;
+			ctx.beginPath();
+			ctx.moveTo(-s * 0.9, -s * 0.05);
+			ctx.quadraticCurveTo(0, -s * 0.6, s * 0.9, -s * 0.05);
+			ctx.quadraticCurveTo(0, s * 0.4, -s * 0.9, -s * 0.05);
+			ctx.fill();
+			ctx.stroke();
+			ctx.fillStyle = PALETTE.ARTIFACT_LAPIS;
+			ctx.beginPath();
+			ctx.arc(0, -s * 0.1, s * 0.22, 0, Math.PI * 2);
+			ctx.fill();
+			ctx.beginPath();
+			ctx.moveTo(-s * 0.1, s * 0.2);
+			ctx.lineTo(-s * 0.25, s * 0.85);
+			ctx.moveTo(s * 0.25, s * 0.18);
+			ctx.quadraticCurveTo(s * 0.35, s * 0.8, s * 0.8, s * 0.6);
+			ctx.stroke();
+			break;
+	}
+
+	ctx.restore();
+}
+
+/** Draws each popup rising and fading over SCORE_POPUP_MS. */
+export function drawScorePopups(ctx: CanvasRenderingContext2D, popups: readonly ScorePopup[]): void {
+	ctx.save();
+	ctx.fillStyle = PALETTE.SCORE_POPUP;
+	ctx.font = 'bold 10px monospace';
+	ctx.textAlign = 'center';
+	ctx.textBaseline = 'middle';
+	for (const popup of popups) {
+		const age = 1 - popup.remainingMs / SCORE_POPUP_MS;
+		ctx.globalAlpha = Math.min(1, popup.remainingMs / (SCORE_POPUP_MS / 3));
+		ctx.fillText(String(popup.score), popup.pos.x, popup.pos.y - age * TS);
+	}
+	ctx.restore();
+}
+
+/**
+ * The tap-to-move route as a faint dotted line from Pacmoon through each
+ * tile center, with a ring on the last tile. Steps through a tunnel leave a
+ * gap rather than a line across the whole maze.
+ */
+export function drawRoute(ctx: CanvasRenderingContext2D, from: Vec2, route: readonly TilePos[]): void {
+	if (route.length === 0) return;
+
+	ctx.save();
+	ctx.globalAlpha = 0.45;
+	ctx.strokeStyle = PALETTE.ROUTE;
+	ctx.lineWidth = 1.5;
+	ctx.lineCap = 'round';
+	ctx.setLineDash([0.5, 4]);
+
+	ctx.beginPath();
+	let prev = from;
+	ctx.moveTo(prev.x, prev.y);
+	for (const tile of route) {
+		const next = { x: (tile.col + 0.5) * TS, y: (tile.row + 0.5) * TS };
+		if (Math.abs(next.x - prev.x) > TS * 1.5) {
+			ctx.moveTo(next.x, next.y);
+		} else {
+			ctx.lineTo(next.x, next.y);
+		}
+		prev = next;
+	}
+	ctx.stroke();
+
+	ctx.setLineDash([]);
+	ctx.beginPath();
+	ctx.arc(prev.x, prev.y, TS * 0.35, 0, Math.PI * 2);
+	ctx.stroke();
+	ctx.restore();
+}
+
 export function drawPacmoon(
 	ctx: CanvasRenderingContext2D,
 	pos: Vec2,
@@ -126,7 +277,29 @@ export function drawPacmoon(
 	const t = (timeMs % MOUTH_CYCLE_MS) / MOUTH_CYCLE_MS;
 	const mouthAngle = mouthMinRad + (mouthMaxRad - mouthMinRad) * triWave01(t);
 
-	const angle = DIR_ANGLE[dir];
+	drawMoonBody(ctx, pos, DIR_ANGLE[dir], mouthAngle);
+}
+
+/** Death animation: the mouth opens until the moon has been eaten away. */
+export function drawPacmoonDeath(
+	ctx: CanvasRenderingContext2D,
+	pos: Vec2,
+	progress: number
+): void {
+	if (progress >= 1) return;
+
+	const mouthMinRad = (MOUTH_OPEN_MIN_DEG * Math.PI) / 180;
+	const mouthAngle = mouthMinRad + (Math.PI - mouthMinRad) * progress;
+
+	drawMoonBody(ctx, pos, DIR_ANGLE.up, mouthAngle);
+}
+
+function drawMoonBody(
+	ctx: CanvasRenderingContext2D,
+	pos: Vec2,
+	angle: number,
+	mouthAngle: number
+): void {
 	const r = PACMOON_RADIUS;
 
 	ctx.save();
@@ -195,7 +368,7 @@ function drawMoonCraters(ctx: CanvasRenderingContext2D, r: number): void {
 export function drawGhost(
 	ctx: CanvasRenderingContext2D,
 	pos: Vec2,
-	name: GhostName,
+	type: GhostName,
 	mode: GhostMode,
 	dir: Dir,
 	timeMs: number,
@@ -206,7 +379,7 @@ export function drawGhost(
 		return;
 	}
 
-	const scheme = APOPHIS_SCHEMES[name];
+	const scheme = getGhostDefinition(type).scheme;
 	const baseColor = mode === 'frightened' ? getFrightenedColor(frightenedMsRemaining) : scheme.body;
 	const accentColor = mode === 'frightened' ? PALETTE.FRIGHTENED_BLINK : scheme.accent;
 
@@ -343,10 +516,61 @@ function getFrightenedColor(frightenedMsRemaining: number): string {
 	return blinkOn ? PALETTE.FRIGHTENED_BLINK : PALETTE.FRIGHTENED;
 }
 
-export function drawReadyText(ctx: CanvasRenderingContext2D): void {
+/** Draws READY! in the corridor just below the ghost house. */
+export function drawReadyText(ctx: CanvasRenderingContext2D, house: GhostHouse): void {
 	ctx.fillStyle = PALETTE.TEXT_READY;
 	ctx.font = 'bold 14px monospace';
 	ctx.textAlign = 'center';
 	ctx.textBaseline = 'middle';
-	ctx.fillText('READY!', 14 * TS, 17.5 * TS);
+	ctx.fillText('READY!', (house.col + house.width / 2) * TS, (house.row + house.height + 1.5) * TS);
+}
+
+/** `route` is the tap-to-move route still to walk, if any. */
+export function drawScene(ctx: CanvasRenderingContext2D, sim: Simulation, route: readonly TilePos[] = []): void {
+	const grid = sim.getGrid();
+	const timeMs = sim.getTimeMs();
+	const phase = sim.getPhase();
+
+	if (phase === 'level_clear') {
+		const elapsedMs = sim.getPhaseProgress() * LEVEL_CLEAR_DURATION_MS;
+		const flash = Math.floor(elapsedMs / LEVEL_FLASH_PERIOD_MS) % 2 === 1;
+		drawMaze(ctx, grid, flash);
+		drawPacmoon(ctx, sim.getPacmoonPos(), 'right', 0);
+		return;
+	}
+
+	drawMaze(ctx, grid);
+	drawPellets(ctx, grid, sim.isPowerPelletVisible());
+
+	if (phase === 'ready') {
+		drawReadyText(ctx, sim.getLevelData().ghostHouse);
+	}
+
+	if (phase === 'life_lost') {
+		drawPacmoonDeath(ctx, sim.getPacmoonPos(), sim.getPhaseProgress());
+		return;
+	}
+
+	const bonus = sim.getBonusItem();
+	if (bonus) {
+		// A gentle bob so the artifact reads as a pickup, not part of the maze.
+		drawArtifact(ctx, bonus.kind, bonus.pos.x, bonus.pos.y + Math.sin(timeMs / 200), TS * 0.9);
+	}
+	drawScorePopups(ctx, sim.getScorePopups());
+	drawRoute(ctx, sim.getPacmoonPos(), route);
+
+	for (const ghost of sim.getGhosts()) {
+		drawGhost(
+			ctx,
+			ghost.pos,
+			ghost.type,
+			ghost.mode,
+			ghost.dir,
+			timeMs,
+			ghost.frightenedTimeRemaining
+		);
+	}
+
+	const pacmoonDir = sim.getPacmoonDir();
+	drawPacmoon(ctx, sim.getPacmoonPos(), pacmoonDir === 'none' ? 'right' : pacmoonDir, timeMs);
 }
@@ -0,0 +1,50 @@
+import { getStorage } from './local-storage';
+
+const SETTINGS_KEY = 'pacmoon:audio';
+
+/** Volumes run from 0 to 1; sfx and music are scaled by master. */
+export interface AudioSettings {
+  master: number;
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  sfx: 1,
+  music: 0.5,
+  muted: false
+};
+
+function volume(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+}
+
+/** The stored settings, with defaults for anything missing or unreadable. */
+export function loadAudioSettings(): AudioSettings {
+  const text = getStorage()?.getItem(SETTINGS_KEY);
+  if (!text) return { ...DEFAULT_AUDIO_SETTINGS };
+
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed === 'object' && parsed !== null) data = parsed as Record<string, unknown>;
+  } catch {
+    // Fall back to the defaults below.
+  }
+  return {
+    master: volume(data.master, DEFAULT_AUDIO_SETTINGS.master),
+    sfx: volume(data.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+    music: volume(data.music, DEFAULT_AUDIO_SETTINGS.music),
+    muted: typeof data.muted === 'boolean' ? data.muted : DEFAULT_AUDIO_SETTINGS.muted
+  };
+}
+
+export function storeAudioSettings(settings: AudioSettings): void {
+  try {
+    getStorage()?.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled; the settings last until the page closes.
+  }
+}
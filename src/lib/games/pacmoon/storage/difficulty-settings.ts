@@ -0,0 +1,41 @@
+import type { GhostDifficulty } from '../types';
+import { getStorage } from './local-storage';
+
+const SETTINGS_KEY = 'pacmoon:difficulty';
+
+export interface DifficultySettings {
+  ghosts: GhostDifficulty;
+}
+
+export const DEFAULT_DIFFICULTY_SETTINGS: DifficultySettings = {
+  ghosts: 'arcade'
+};
+
+const GHOST_DIFFICULTIES: GhostDifficulty[] = ['arcade', 'cunning', 'relentless'];
+
+/** The stored settings, with defaults for anything missing or unreadable. */
+export function loadDifficultySettings(): DifficultySettings {
+  const text = getStorage()?.getItem(SETTINGS_KEY);
+  if (!text) return { ...DEFAULT_DIFFICULTY_SETTINGS };
+
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed === 'object' && parsed !== null) data = parsed as Record<string, unknown>;
+  } catch {
+    // Fall back to the defaults below.
+  }
+  return {
+    ghosts: GHOST_DIFFICULTIES.includes(data.ghosts as GhostDifficulty)
+      ? (data.ghosts as GhostDifficulty)
+      : DEFAULT_DIFFICULTY_SETTINGS.ghosts
+  };
+}
+
+export function storeDifficultySettings(settings: DifficultySettings): void {
+  try {
+    getStorage()?.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled; the settings last until the page closes.
+  }
+}
@@ -0,0 +1,71 @@
+import type { GameMode } from '../types';
+import { getStorage } from './local-storage';
+
+const SCORES_KEY = 'pacmoon:high-scores';
+
+export const HIGH_SCORE_LIMIT = 10;
+export const INITIALS_LENGTH = 3;
+
+export interface HighScoreEntry {
+  initials: string;
+  score: number;
+  /** The level the game ended on. */
+  level: number;
+  /** UTC date the game ended, as YYYY-MM-DD. */
+  date: string;
+  mode: GameMode;
+}
+
+function isEntry(value: unknown): value is HighScoreEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.initials === 'string' &&
+    typeof entry.score === 'number' &&
+    typeof entry.level === 'number' &&
+    typeof entry.date === 'string' &&
+    (entry.mode === 'classic' || entry.mode === 'daily')
+  );
+}
+
+/** The stored table, best first. Unreadable tables are dropped. */
+export function loadHighScores(): HighScoreEntry[] {
+  const storage = getStorage();
+  const text = storage?.getItem(SCORES_KEY);
+  if (!text) return [];
+
+  try {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data) || !data.every(isEntry)) throw new Error('not a high-score table');
+    return data.sort((a, b) => b.score - a.score).slice(0, HIGH_SCORE_LIMIT);
+  } catch (e) {
+    console.warn('[pacmoon] discarding unreadable high scores', e);
+    storage?.removeItem(SCORES_KEY);
+    return [];
+  }
+}
+
+/** Whether `score` would make it onto `table`. */
+export function qualifiesForHighScores(table: readonly HighScoreEntry[], score: number): boolean {
+  if (score <= 0) return false;
+  return table.length < HIGH_SCORE_LIMIT || score > table[table.length - 1].score;
+}
+
+/**
+ * Adds an entry below any equal scores already on the table, stores the
+ * result and returns it with the new entry's position (or -1 if it missed).
+ */
+export function addHighScore(entry: HighScoreEntry): { table: HighScoreEntry[]; rank: number } {
+  const table = loadHighScores();
+  let rank = table.findIndex((other) => entry.score > other.score);
+  if (rank === -1) rank = table.length;
+  table.splice(rank, 0, entry);
+
+  const kept = table.slice(0, HIGH_SCORE_LIMIT);
+  try {
+    getStorage()?.setItem(SCORES_KEY, JSON.stringify(kept));
+  } catch {
+    // Storage full or disabled; the table just won't outlive the page.
+  }
+  return { table: kept, rank: rank < HIGH_SCORE_LIMIT ? rank : -1 };
+}
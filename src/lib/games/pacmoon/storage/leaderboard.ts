@@ -0,0 +1,62 @@
+import type { GameMode } from '../types';
+import type { ReplayFile } from '../engine/replay';
+
+export type Board = 'daily' | 'weekly' | 'all';
+
+export const BOARDS: Board[] = ['daily', 'weekly', 'all'];
+
+/** Boards list this many entries. */
+export const LEADERBOARD_LIMIT = 10;
+
+export interface LeaderboardEntry {
+  initials: string;
+  score: number;
+  level: number;
+  mode: GameMode;
+  /** When the server accepted the score, as an ISO timestamp. */
+  date: string;
+}
+
+/** What the game sends; the server works out the score again from the replay. */
+export interface ScoreSubmission {
+  initials: string;
+  score: number;
+  replay: ReplayFile;
+}
+
+export interface SubmitResult {
+  entry: LeaderboardEntry;
+  /** Zero-based place on each board. */
+  ranks: Record<Board, number>;
+}
+
+export class LeaderboardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeaderboardError';
+  }
+}
+
+const SCORES_URL = '/api/pacmoon/scores';
+
+async function readResponse<T>(response: Response): Promise<T> {
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = (body as { message?: unknown } | null)?.message;
+    throw new LeaderboardError(typeof message === 'string' ? message : `Leaderboard request failed (${response.status})`);
+  }
+  return body as T;
+}
+
+export async function fetchLeaderboard(board: Board): Promise<LeaderboardEntry[]> {
+  return readResponse(await fetch(`${SCORES_URL}?board=${board}`));
+}
+
+export async function submitScore(submission: ScoreSubmission): Promise<SubmitResult> {
+  const response = await fetch(SCORES_URL, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(submission)
+  });
+  return readResponse(response);
+}
@@ -0,0 +1,8 @@
+/** localStorage, or null during SSR or when the browser refuses access. */
+export function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
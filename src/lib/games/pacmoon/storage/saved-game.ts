@@ -0,0 +1,31 @@
+import { parseSnapshot, type SimulationSnapshot } from '../engine/snapshot';
+import { getStorage } from './local-storage';
+
+const SAVE_KEY = 'pacmoon:save';
+
+export function storeSavedGame(snapshot: SimulationSnapshot): void {
+  try {
+    getStorage()?.setItem(SAVE_KEY, JSON.stringify(snapshot));
+  } catch {
+    // Quota exceeded or storage disabled; losing a suspend save is not fatal.
+  }
+}
+
+/** Returns the stored game, or null if there is none or it can no longer be read. */
+export function loadSavedGame(): SimulationSnapshot | null {
+  const storage = getStorage();
+  const text = storage?.getItem(SAVE_KEY);
+  if (!text) return null;
+
+  try {
+    return parseSnapshot(text);
+  } catch (e) {
+    console.warn('[pacmoon] discarding unreadable save', e);
+    storage?.removeItem(SAVE_KEY);
+    return null;
+  }
+}
+
+export function clearSavedGame(): void {
+  getStorage()?.removeItem(SAVE_KEY);
+}
@@ -0,0 +1,47 @@
+import type { Handedness } from '../input/touch-pad';
+import { getStorage } from './local-storage';
+
+const SETTINGS_KEY = 'pacmoon:touch';
+
+/** D-pad and joystick show a pad; swipe steers by swiping anywhere. */
+export type TouchControlStyle = 'dpad' | 'joystick' | 'swipe';
+
+export interface TouchSettings {
+  style: TouchControlStyle;
+  hand: Handedness;
+}
+
+export const DEFAULT_TOUCH_SETTINGS: TouchSettings = {
+  style: 'dpad',
+  hand: 'left'
+};
+
+const STYLES: TouchControlStyle[] = ['dpad', 'joystick', 'swipe'];
+
+/** The stored settings, with defaults for anything missing or unreadable. */
+export function loadTouchSettings(): TouchSettings {
+  const text = getStorage()?.getItem(SETTINGS_KEY);
+  if (!text) return { ...DEFAULT_TOUCH_SETTINGS };
+
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed === 'object' && parsed !== null) data = parsed as Record<string, unknown>;
+  } catch {
+    // Fall back to the defaults below.
+  }
+  return {
+    style: STYLES.includes(data.style as TouchControlStyle)
+      ? (data.style as TouchControlStyle)
+      : DEFAULT_TOUCH_SETTINGS.style,
+    hand: data.hand === 'left' || data.hand === 'right' ? data.hand : DEFAULT_TOUCH_SETTINGS.hand
+  };
+}
+
+export function storeTouchSettings(settings: TouchSettings): void {
+  try {
+    getStorage()?.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled; the settings last until the page closes.
+  }
+}
@@ -6,15 +6,34 @@ export type TilePos = { col: number; row: number };
 
 export type GamePhase =
   | 'start'
+  | 'ready'
   | 'playing'
   | 'paused'
   | 'life_lost'
   | 'level_clear'
   | 'game_over';
 
+export type GameIntent = 'confirm' | 'pause';
+
+/** Classic cycles the bundled mazes; daily plays one generated maze per UTC day. */
+export type GameMode = 'classic' | 'daily';
+
+/**
+ * How cleverly ghosts chase, picked by the player: arcade steering, a mix that
+ * sometimes takes the shortest path, or always the shortest path.
+ */
+export type GhostDifficulty = 'arcade' | 'cunning' | 'relentless';
+
 export type GhostMode = 'scatter' | 'chase' | 'frightened' | 'eaten';
 
-export type GhostName = 'ra' | 'bastet' | 'thoth' | 'anubis';
+/**
+ * Where a ghost is relative to the ghost house: waiting inside, following the
+ * scripted path out or (after being eaten) back in, or loose in the maze.
+ */
+export type GhostHouseState = 'waiting' | 'leaving' | 'entering' | 'active';
+
+/** A registered ghost type; see entities/ghost-registry.ts. */
+export type GhostName = string;
 
 export type Tile =
   | 'wall'
@@ -24,11 +43,23 @@ export type Tile =
   | 'door'
   | 'tunnel';
 
+/** Bonus items, one per level like the arcade's fruit. */
+export type ArtifactKind = 'moon-rock' | 'scarab' | 'ankh' | 'eye-of-horus';
+
+/** Points floating up from where they were scored. */
+export type ScorePopup = { pos: Vec2; score: number; remainingMs: number };
+
+/** Ra's "Cruise Elroy" anger: 0 is calm, 1 and 2 are faster and ignore scatter. */
+export type ElroyStage = 0 | 1 | 2;
+
 export type HudState = {
   score: number;
   lives: number;
   level: number;
   phase: GamePhase;
+  elroyStage: ElroyStage;
+  /** Bonus items collected this game, oldest first. */
+  artifacts: ArtifactKind[];
 };
 
 export const DIR_V: Record<Dir, Vec2> = {
@@ -40,3 +71,6 @@ export const DIR_V: Record<Dir, Vec2> = {
 };
 
 export const DIR_ORDER: Dir[] = ['up', 'left', 'down', 'right'];
+
+/** The arcade four, in release order. */
+export const CLASSIC_GHOSTS: GhostName[] = ['ra', 'bastet', 'thoth', 'anubis'];
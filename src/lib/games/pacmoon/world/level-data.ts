@@ -1,55 +1,54 @@
-import type { TilePos } from '../types';
+import type { GhostName, TilePos } from '../types';
+import { parseMaze } from './maze-format';
+import { assertValidMaze } from './maze-validator';
+
+export interface GhostHouse {
+  /** Top-left interior tile and size of the pen. */
+  col: number;
+  row: number;
+  width: number;
+  height: number;
+  /** Door tiles ghosts pass through on their way in and out. */
+  door: TilePos[];
+}
+
+export interface LevelGhost {
+  /** Unique within the level: the type, then `type-2`, `type-3`… for repeats. */
+  id: string;
+  type: GhostName;
+  spawn: TilePos;
+  scatter: TilePos;
+}
 
 export interface LevelData {
+  name: string;
+  cols: number;
+  rows: number;
   maze: string[];
   pacmoonSpawn: TilePos;
-  ghostSpawns: Record<string, TilePos>;
-  scatterTargets: Record<string, TilePos>;
+  /** Ghosts in release order. */
+  ghosts: LevelGhost[];
+  ghostHouse: GhostHouse;
+  /** Pairs of edge tiles that lead into each other. */
+  tunnels: [TilePos, TilePos][];
+}
+
+const MAZE_FILES = import.meta.glob<string>('./mazes/*.maze', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+});
+
+function loadMaze(path: string): LevelData {
+  const source = path.slice(path.lastIndexOf('/') + 1);
+  const level = parseMaze(MAZE_FILES[path], source);
+  assertValidMaze(level, source);
+  return level;
 }
 
-export const LEVEL_1: LevelData = {
-  maze: [
-    '########################################',
-    '#o.........#......#......#............o#',
-    '#.###.####.#.####.#.####.#.####.######.#',
-    '#.#........#....#.#.#....#....#........#',
-    '#.#.##########.##.#.#.##.##.###.########',
-    '#.#...............#.#.....#............#',
-    '#.#.########.######.#####.#####.######.#',
-    '#......................................T',
-    '########.###.######.#######.#####.####.#',
-    '#........#................#.....#......#',
-    '#.########.#######.##--##.####.##.######',
-    'T..................#    #..............#',
-    '#.########.#######.######.#.##.##.####.#',
-    '#........#................#.....#......#',
-    '########.###.######.###########.##.#####',
-    '#..........#...........................T',
-    '#.#.########.######.#####.#####.######.#',
-    '#.#..........#....#.#.....#............#',
-    '#.#.##########.##.#.#.#####.###.########',
-    '#.#........#....#.#.#....#....#........#',
-    '#.###.####.#.####.#.####.#.####.######.#',
-    '#o.........#......#......#............o#',
-    '#.######.#####.########.#####.########.#',
-    '#......................................#',
-    '########################################',
-  ],
-  pacmoonSpawn: { col: 2, row: 11 },
-  ghostSpawns: {
-    ra: { col: 19, row: 11 },
-    bastet: { col: 20, row: 11 },
-    thoth: { col: 21, row: 11 },
-    anubis: { col: 22, row: 11 }
-  },
-  scatterTargets: {
-    ra: { col: 38, row: 0 },
-    bastet: { col: 1, row: 0 },
-    thoth: { col: 38, row: 24 },
-    anubis: { col: 1, row: 24 }
-  }
-};
+/** Bundled mazes in file-name order; levels cycle through them. */
+export const LEVELS: readonly LevelData[] = Object.keys(MAZE_FILES).sort().map(loadMaze);
 
 export function getLevelData(level: number): LevelData {
-  return LEVEL_1;
+  return LEVELS[(level - 1) % LEVELS.length];
 }
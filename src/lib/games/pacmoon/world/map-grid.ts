@@ -1,5 +1,5 @@
 import type { Tile, TilePos, Vec2 } from '../types';
-import { COLS, ROWS, BASE_TILE } from '../engine/config';
+import { BASE_TILE } from '../engine/config';
 import type { LevelData } from './level-data';
 
 const TS = BASE_TILE;
@@ -21,18 +21,55 @@ function charToTile(char: string): Tile {
 	}
 }
 
+/** Tiles differ in passability only as wall, door or open floor. */
+function passability(tile: Tile): 'wall' | 'door' | 'open' {
+	return tile === 'wall' || tile === 'door' ? tile : 'open';
+}
+
+function tileToChar(tile: Tile): string {
+	switch (tile) {
+		case 'wall':
+			return '#';
+		case 'pellet':
+			return '.';
+		case 'power':
+			return 'o';
+		case 'door':
+			return '-';
+		case 'tunnel':
+			return 'T';
+		default:
+			return ' ';
+	}
+}
+
+export interface MapGridState {
+	tiles: string[];
+	pelletsRemaining: number;
+}
+
 export class MapGrid {
-	readonly cols = COLS;
-	readonly rows = ROWS;
+	readonly cols: number;
+	readonly rows: number;
+	/** World size in logical px. */
+	readonly width: number;
+	readonly height: number;
 	private tiles: Tile[][];
+	/** Pellets the maze started with. */
+	readonly pelletsTotal: number;
 	private pelletsRemaining = 0;
+	private layoutVersion = 0;
 
 	constructor(levelData: LevelData) {
+		this.cols = levelData.cols;
+		this.rows = levelData.rows;
+		this.width = this.cols * TS;
+		this.height = this.rows * TS;
 		this.tiles = [];
-		for (let row = 0; row < ROWS; row++) {
+		for (let row = 0; row < this.rows; row++) {
 			const rowTiles: Tile[] = [];
 			const mazeRow = levelData.maze[row] || '';
-			for (let col = 0; col < COLS; col++) {
+			for (let col = 0; col < this.cols; col++) {
 				const char = mazeRow[col] || ' ';
 				const tile = charToTile(char);
 				rowTiles.push(tile);
@@ -42,6 +79,7 @@ export class MapGrid {
 			}
 			this.tiles.push(rowTiles);
 		}
+		this.pelletsTotal = this.pelletsRemaining;
 	}
 
 	getTile(pos: TilePos): Tile {
@@ -61,9 +99,17 @@ export class MapGrid {
 	setTile(pos: TilePos, tile: Tile): void {
 		if (pos.row < 0 || pos.row >= this.rows) return;
 		if (pos.col < 0 || pos.col >= this.cols) return;
+		if (passability(this.tiles[pos.row][pos.col]) !== passability(tile)) {
+			this.layoutVersion++;
+		}
 		this.tiles[pos.row][pos.col] = tile;
 	}
 
+	/** Changes whenever a wall or door is added or removed; eating pellets leaves it alone. */
+	getLayoutVersion(): number {
+		return this.layoutVersion;
+	}
+
 	consumePellet(pos: TilePos): 'pellet' | 'power' | null {
 		const tile = this.getTile(pos);
 		if (tile === 'pellet' || tile === 'power') {
@@ -111,6 +157,24 @@ export class MapGrid {
 		};
 	}
 
+	serialize(): MapGridState {
+		return {
+			tiles: this.tiles.map((row) => row.map(tileToChar).join('')),
+			pelletsRemaining: this.pelletsRemaining
+		};
+	}
+
+	restore(state: MapGridState): void {
+		for (let row = 0; row < this.rows; row++) {
+			const mazeRow = state.tiles[row] || '';
+			for (let col = 0; col < this.cols; col++) {
+				this.tiles[row][col] = charToTile(mazeRow[col] || ' ');
+			}
+		}
+		this.pelletsRemaining = state.pelletsRemaining;
+		this.layoutVersion++;
+	}
+
 	forEachTile(callback: (pos: TilePos, tile: Tile) => void): void {
 		for (let row = 0; row < this.rows; row++) {
 			for (let col = 0; col < this.cols; col++) {
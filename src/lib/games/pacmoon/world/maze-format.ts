@@ -0,0 +1,203 @@
+import type { GhostName, TilePos } from '../types';
+import type { GhostHouse, LevelData, LevelGhost } from './level-data';
+
+/**
+ * Parser for `.maze` files: a `key: value` header, a `---` line, then the
+ * ASCII grid. The format is documented in docs/pacmoon-maze-format.md.
+ */
+
+const GRID_SEPARATOR = '---';
+
+export class MazeFormatError extends Error {
+  readonly source: string;
+  readonly line: number;
+
+  constructor(source: string, line: number, message: string) {
+    super(`${source}:${line}: ${message}`);
+    this.name = 'MazeFormatError';
+    this.source = source;
+    this.line = line;
+  }
+}
+
+function parseTile(text: string, fail: (message: string) => never): TilePos {
+  const match = /^(\d+),(\d+)$/.exec(text);
+  if (!match) {
+    fail(`expected "col,row", got "${text}"`);
+  }
+  return { col: Number(match[1]), row: Number(match[2]) };
+}
+
+function parseTileList(value: string, fail: (message: string) => never): TilePos[] {
+  return value.split(/\s+/).filter(Boolean).map((part) => parseTile(part, fail));
+}
+
+function parseHouse(value: string, fail: (message: string) => never): Omit<GhostHouse, 'door'> {
+  const match = /^(\d+),(\d+)\s+(\d+)x(\d+)$/.exec(value);
+  if (!match) {
+    fail(`expected "col,row WxH", got "${value}"`);
+  }
+  return {
+    col: Number(match[1]),
+    row: Number(match[2]),
+    width: Number(match[3]),
+    height: Number(match[4])
+  };
+}
+
+/** Ids for ghosts in level order: the type, then `type-2`, `type-3`… for repeats. */
+export function ghostIds(types: readonly GhostName[]): string[] {
+  const counts = new Map<GhostName, number>();
+  return types.map((type) => {
+    const n = (counts.get(type) ?? 0) + 1;
+    counts.set(type, n);
+    return n === 1 ? type : `${type}-${n}`;
+  });
+}
+
+/**
+ * Pairs `spawn` lines with `scatter` lines. Each spawn line adds a ghost; the
+ * n-th ghost of a type takes the n-th scatter line for that type, or the last
+ * one when there are fewer.
+ */
+function buildGhosts(
+  spawns: { type: GhostName; pos: TilePos }[],
+  scatters: Map<GhostName, TilePos[]>,
+  fail: (message: string) => never
+): LevelGhost[] {
+  const ids = ghostIds(spawns.map((spawn) => spawn.type));
+  const counts = new Map<GhostName, number>();
+
+  const ghosts = spawns.map(({ type, pos }, i) => {
+    const n = (counts.get(type) ?? 0) + 1;
+    counts.set(type, n);
+
+    const targets = scatters.get(type);
+    if (!targets) fail(`missing "scatter ${type}"`);
+    return {
+      id: ids[i],
+      type,
+      spawn: pos,
+      scatter: targets[Math.min(n, targets.length) - 1]
+    };
+  });
+
+  for (const type of scatters.keys()) {
+    if (!counts.has(type)) fail(`"scatter ${type}" has no matching "spawn ${type}"`);
+  }
+  return ghosts;
+}
+
+export function parseMaze(text: string, source = 'maze'): LevelData {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  let name: string | undefined;
+  let pacmoonSpawn: TilePos | undefined;
+  let house: Omit<GhostHouse, 'door'> | undefined;
+  let door: TilePos[] | undefined;
+  const spawns: { type: GhostName; pos: TilePos }[] = [];
+  const scatters = new Map<GhostName, TilePos[]>();
+  const tunnels: [TilePos, TilePos][] = [];
+
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const lineNo = index + 1;
+    const line = lines[index].trim();
+    const fail: (message: string) => never = (message) => {
+      throw new MazeFormatError(source, lineNo, message);
+    };
+
+    if (line === GRID_SEPARATOR) break;
+    if (line === '' || line.startsWith('#')) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      fail(`expected "key: value", got "${line}"`);
+    }
+    const key = line.slice(0, colon).trim().split(/\s+/);
+    const value = line.slice(colon + 1).trim();
+
+    switch (key[0]) {
+      case 'name':
+        name = value;
+        break;
+      case 'pacmoon':
+        pacmoonSpawn = parseTile(value, fail);
+        break;
+      case 'spawn':
+      case 'scatter': {
+        const ghost = key[1];
+        if (!ghost) fail(`"${key[0]}" needs a ghost name, e.g. "${key[0]} ra"`);
+        const pos = parseTile(value, fail);
+        if (key[0] === 'spawn') {
+          spawns.push({ type: ghost, pos });
+        } else {
+          scatters.set(ghost, [...(scatters.get(ghost) ?? []), pos]);
+        }
+        break;
+      }
+      case 'house':
+        house = parseHouse(value, fail);
+        break;
+      case 'door':
+        door = parseTileList(value, fail);
+        break;
+      case 'tunnel': {
+        const ends = parseTileList(value, fail);
+        if (ends.length !== 2) fail('a tunnel joins exactly two tiles');
+        tunnels.push([ends[0], ends[1]]);
+        break;
+      }
+      default:
+        fail(`unknown key "${key.join(' ')}"`);
+    }
+  }
+
+  const headerFail: (message: string) => never = (message) => {
+    throw new MazeFormatError(source, Math.min(index + 1, lines.length), message);
+  };
+
+  if (index >= lines.length) headerFail(`missing "${GRID_SEPARATOR}" line before the grid`);
+  if (!name) headerFail('missing "name"');
+  if (!pacmoonSpawn) headerFail('missing "pacmoon" spawn');
+  if (!house) headerFail('missing "house"');
+  if (!door || door.length === 0) headerFail('missing "door"');
+  if (spawns.length === 0) headerFail('missing "spawn" lines; a maze needs at least one ghost');
+  const ghosts = buildGhosts(spawns, scatters, headerFail);
+
+  const maze = lines.slice(index + 1);
+  while (maze.length > 0 && maze[maze.length - 1].trim() === '') {
+    maze.pop();
+  }
+  if (maze.length === 0) headerFail('the grid is empty');
+
+  return {
+    name: name!,
+    cols: Math.max(...maze.map((row) => row.length)),
+    rows: maze.length,
+    maze,
+    pacmoonSpawn: pacmoonSpawn!,
+    ghosts,
+    ghostHouse: { ...house!, door: door! },
+    tunnels
+  };
+}
+
+function formatTile(pos: TilePos): string {
+  return `${pos.col},${pos.row}`;
+}
+
+/** Writes a level back out in `.maze` form; `parseMaze` reads it back unchanged. */
+export function serializeMaze(level: LevelData): string {
+  const { ghostHouse: house } = level;
+  const header = [
+    `name: ${level.name}`,
+    `pacmoon: ${formatTile(level.pacmoonSpawn)}`,
+    ...level.ghosts.map((ghost) => `spawn ${ghost.type}: ${formatTile(ghost.spawn)}`),
+    ...level.ghosts.map((ghost) => `scatter ${ghost.type}: ${formatTile(ghost.scatter)}`),
+    `house: ${formatTile(house)} ${house.width}x${house.height}`,
+    `door: ${house.door.map(formatTile).join(' ')}`,
+    ...level.tunnels.map(([a, b]) => `tunnel: ${formatTile(a)} ${formatTile(b)}`)
+  ];
+  return [...header, GRID_SEPARATOR, ...level.maze, ''].join('\n');
+}
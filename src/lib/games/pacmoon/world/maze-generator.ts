@@ -0,0 +1,229 @@
+import type { TilePos } from '../types';
+import { lcgNext } from '../../../seeded-random';
+import { Rng } from '../engine/rng';
+import type { LevelData, LevelGhost } from './level-data';
+import { assertValidMaze } from './maze-validator';
+
+/**
+ * Seeded generator for symmetric, arcade-style mazes.
+ *
+ * The left half is a lattice of junction nodes three tiles apart, so walls
+ * between corridors are always two tiles thick. A random spanning tree joins
+ * every node, extra links then remove dead ends, and the result is mirrored.
+ * The ghost house sits in the middle with a corridor ring around it.
+ */
+
+const COLS = 29;
+const ROWS = 30;
+const CENTER_COL = (COLS - 1) / 2;
+const SPACING = 3;
+
+const NODE_COLS = [1, 4, 7, 10, 13];
+const NODE_ROWS = Array.from({ length: 10 }, (_, i) => 1 + i * SPACING);
+
+// House walls fill cols 9–19, rows 11–15; the ring runs along rows 10 and 16
+// and cols 7 and 21.
+const HOUSE = { col: 11, row: 12, width: 7, height: 3 };
+const HOUSE_BLOCK = { col: 9, row: 11, width: 11, height: 5 };
+const DOOR: TilePos = { col: CENTER_COL, row: 11 };
+const RING_TOP = 10;
+const RING_BOTTOM = 16;
+const RING_COL = 7;
+const PACMOON_ROW = 22;
+
+const TUNNEL_ROWS = [7, 13, 19, 25];
+
+type Node = { col: number; row: number };
+
+/** A link between two left-half nodes, or from a node to its mirror when `to` is null. */
+interface Edge {
+  from: Node;
+  to: Node | null;
+}
+
+function nodeKey(node: Node): string {
+  return `${node.col},${node.row}`;
+}
+
+function inHouseBlock(pos: TilePos): boolean {
+  return (
+    pos.col >= HOUSE_BLOCK.col && pos.col < HOUSE_BLOCK.col + HOUSE_BLOCK.width &&
+    pos.row >= HOUSE_BLOCK.row && pos.row < HOUSE_BLOCK.row + HOUSE_BLOCK.height
+  );
+}
+
+function shuffle<T>(items: T[], rng: Rng): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = rng.nextInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function buildLattice(): { nodes: Node[]; edges: Edge[] } {
+  const nodes: Node[] = [];
+  for (const row of NODE_ROWS) {
+    for (const col of NODE_COLS) {
+      if (!inHouseBlock({ col, row })) nodes.push({ col, row });
+    }
+  }
+
+  const byKey = new Map(nodes.map((node) => [nodeKey(node), node]));
+  const edges: Edge[] = [];
+  for (const node of nodes) {
+    const right = byKey.get(nodeKey({ col: node.col + SPACING, row: node.row }));
+    const down = byKey.get(nodeKey({ col: node.col, row: node.row + SPACING }));
+    if (right) edges.push({ from: node, to: right });
+    if (down) edges.push({ from: node, to: down });
+    if (node.col === NODE_COLS[NODE_COLS.length - 1]) edges.push({ from: node, to: null });
+  }
+
+  return { nodes, edges };
+}
+
+function isForced(edge: Edge): boolean {
+  const { from, to } = edge;
+  const onRing = (row: number) => row === RING_TOP || row === RING_BOTTOM;
+
+  if (to === null) {
+    return onRing(from.row) || from.row === PACMOON_ROW;
+  }
+  if (from.row === to.row) {
+    return onRing(from.row) && from.col >= RING_COL;
+  }
+  return from.col === RING_COL && from.row >= RING_TOP && to.row <= RING_BOTTOM;
+}
+
+/** Picks which lattice links become corridors. */
+function carve(rng: Rng, tunnelRows: number[]): Edge[] {
+  const { nodes, edges } = buildLattice();
+
+  const parent = new Map(nodes.map((n) => [nodeKey(n), nodeKey(n)]));
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+  const union = (edge: Edge): boolean => {
+    if (edge.to === null) return false;
+    const a = find(nodeKey(edge.from));
+    const b = find(nodeKey(edge.to));
+    if (a === b) return false;
+    parent.set(a, b);
+    return true;
+  };
+
+  const open = new Set<Edge>();
+  for (const edge of edges) {
+    if (isForced(edge)) {
+      open.add(edge);
+      union(edge);
+    }
+  }
+
+  // Randomized Kruskal joins the rest of the half into one tree.
+  for (const edge of shuffle(edges.filter((e) => !open.has(e)), rng)) {
+    if (union(edge)) open.add(edge);
+  }
+
+  // Then give every node at least two ways out.
+  const degree = (node: Node): number => {
+    let count = 0;
+    for (const edge of open) {
+      if (edge.from === node || edge.to === node) count++;
+    }
+    if (node.col === NODE_COLS[0] && tunnelRows.includes(node.row)) count++;
+    return count;
+  };
+
+  for (const node of shuffle([...nodes], rng)) {
+    while (degree(node) < 2) {
+      const closed = edges.filter((e) => !open.has(e) && (e.from === node || e.to === node));
+      open.add(closed[rng.nextInt(closed.length)]);
+    }
+  }
+
+  return [...open];
+}
+
+function classicGhost(type: string, spawn: TilePos, scatter: TilePos): LevelGhost {
+  return { id: type, type, spawn, scatter };
+}
+
+function mirrorCol(col: number): number {
+  return COLS - 1 - col;
+}
+
+/** Seed shared by everyone playing on the given UTC day. */
+export function dailySeed(date: Date = new Date()): number {
+  let seed = date.getUTCFullYear() * 10000 + (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+  // Neighbouring dates would otherwise start with nearly identical draws.
+  for (let i = 0; i < 3; i++) {
+    seed = lcgNext(seed);
+  }
+  return seed;
+}
+
+export function generateMaze(seed: number, name = `Maze #${seed}`): LevelData {
+  const rng = new Rng(seed);
+  const tunnelRows = shuffle([...TUNNEL_ROWS], rng).slice(0, 1 + rng.nextInt(2)).sort((a, b) => a - b);
+  const edges = carve(rng, tunnelRows);
+
+  const tiles = Array.from({ length: ROWS }, () => Array<string>(COLS).fill('#'));
+  const open = (col: number, row: number, char = '.') => {
+    tiles[row][col] = char;
+    tiles[row][mirrorCol(col)] = char;
+  };
+
+  for (const { from, to } of edges) {
+    open(from.col, from.row);
+    if (to === null) {
+      open(CENTER_COL, from.row);
+      continue;
+    }
+    open(to.col, to.row);
+    for (let step = 1; step < SPACING; step++) {
+      if (from.row === to.row) open(from.col + step, from.row);
+      else open(from.col, from.row + step);
+    }
+  }
+
+  for (let row = HOUSE.row; row < HOUSE.row + HOUSE.height; row++) {
+    for (let col = HOUSE.col; col < HOUSE.col + HOUSE.width; col++) {
+      open(col, row, ' ');
+    }
+  }
+  open(DOOR.col, DOOR.row, '-');
+
+  for (const row of tunnelRows) {
+    open(0, row, 'T');
+  }
+
+  const firstRow = NODE_ROWS[0];
+  const lastRow = NODE_ROWS[NODE_ROWS.length - 1];
+  open(NODE_COLS[0], firstRow, 'o');
+  open(NODE_COLS[0], lastRow, 'o');
+
+  const pacmoonSpawn = { col: CENTER_COL, row: PACMOON_ROW };
+  tiles[pacmoonSpawn.row][pacmoonSpawn.col] = ' ';
+
+  const level: LevelData = {
+    name,
+    cols: COLS,
+    rows: ROWS,
+    maze: tiles.map((row) => row.join('')),
+    pacmoonSpawn,
+    ghosts: [
+      classicGhost('ra', { col: CENTER_COL, row: RING_TOP }, { col: COLS - 2, row: 0 }),
+      classicGhost('bastet', { col: CENTER_COL, row: HOUSE.row + 1 }, { col: 1, row: 0 }),
+      classicGhost('thoth', { col: CENTER_COL - 2, row: HOUSE.row + 1 }, { col: COLS - 1, row: ROWS - 1 }),
+      classicGhost('anubis', { col: CENTER_COL + 2, row: HOUSE.row + 1 }, { col: 0, row: ROWS - 1 })
+    ],
+    ghostHouse: { ...HOUSE, door: [DOOR] },
+    tunnels: tunnelRows.map((row) => [{ col: 0, row }, { col: COLS - 1, row }])
+  };
+
+  assertValidMaze(level, name);
+  return level;
+}
@@ -0,0 +1,184 @@
+import type { TilePos } from '../types';
+import { DIR_ORDER, DIR_V } from '../types';
+import type { LevelData } from './level-data';
+import { MapGrid } from './map-grid';
+import { isGhostRegistered } from '../entities/ghost-registry';
+
+const TILE_CHARS = new Set(['#', '.', 'o', '-', 'T', ' ']);
+
+export interface MazeIssue {
+  message: string;
+  /** Where the problem is, when it is tied to a tile or row. */
+  row?: number;
+  col?: number;
+}
+
+export function formatMazeIssue(issue: MazeIssue): string {
+  if (issue.row === undefined) return issue.message;
+  if (issue.col === undefined) return `row ${issue.row}: ${issue.message}`;
+  return `row ${issue.row}, col ${issue.col}: ${issue.message}`;
+}
+
+export class InvalidMazeError extends Error {
+  readonly issues: MazeIssue[];
+
+  constructor(source: string, issues: MazeIssue[]) {
+    super(`${source} is not a valid maze:\n${issues.map((i) => `  ${formatMazeIssue(i)}`).join('\n')}`);
+    this.name = 'InvalidMazeError';
+    this.issues = issues;
+  }
+}
+
+function key(pos: TilePos): string {
+  return `${pos.col},${pos.row}`;
+}
+
+function at(pos: TilePos, message: string): MazeIssue {
+  return { message, row: pos.row, col: pos.col };
+}
+
+/** Tiles reachable on foot from `start`, wrapping at the edges like MapGrid does. */
+function floodFill(grid: MapGrid, start: TilePos): Set<string> {
+  const seen = new Set<string>([key(start)]);
+  const queue: TilePos[] = [start];
+
+  while (queue.length > 0) {
+    const cur = queue.shift()!;
+    for (const dir of DIR_ORDER) {
+      const v = DIR_V[dir];
+      const next = {
+        col: (cur.col + v.x + grid.cols) % grid.cols,
+        row: cur.row + v.y
+      };
+      if (!grid.isWalkable(next) || seen.has(key(next))) continue;
+      seen.add(key(next));
+      queue.push(next);
+    }
+  }
+
+  return seen;
+}
+
+/** Returns every problem found; an empty list means the maze is playable. */
+export function validateMaze(level: LevelData): MazeIssue[] {
+  const issues: MazeIssue[] = [];
+  const { cols, rows } = level;
+  const grid = new MapGrid(level);
+
+  const inBounds = (pos: TilePos) =>
+    pos.col >= 0 && pos.col < cols && pos.row >= 0 && pos.row < rows;
+
+  level.maze.forEach((line, row) => {
+    if (line.length !== cols) {
+      issues.push({ message: `row is ${line.length} tiles wide, expected ${cols}`, row });
+    }
+    for (let col = 0; col < line.length; col++) {
+      if (!TILE_CHARS.has(line[col])) {
+        issues.push(at({ col, row }, `unknown tile "${line[col]}"`));
+      }
+    }
+  });
+
+  const checkSpawn = (pos: TilePos, what: string) => {
+    if (!inBounds(pos)) {
+      issues.push(at(pos, `${what} is outside the ${cols}x${rows} grid`));
+    } else if (!grid.isWalkable(pos)) {
+      issues.push(at(pos, `${what} is inside a ${grid.getTile(pos)}`));
+    }
+  };
+
+  checkSpawn(level.pacmoonSpawn, 'Pacmoon spawn');
+  if (level.ghosts.length === 0) {
+    issues.push({ message: 'the maze has no ghosts' });
+  }
+  for (const ghost of level.ghosts) {
+    if (!isGhostRegistered(ghost.type)) {
+      issues.push({ message: `unknown ghost type "${ghost.type}"` });
+    }
+    checkSpawn(ghost.spawn, `${ghost.id} spawn`);
+    if (!inBounds(ghost.scatter)) {
+      issues.push(at(ghost.scatter, `${ghost.id} scatter target is outside the ${cols}x${rows} grid`));
+    }
+  }
+
+  const house = level.ghostHouse;
+  const inHouse = (pos: TilePos) =>
+    pos.col >= house.col && pos.col < house.col + house.width &&
+    pos.row >= house.row && pos.row < house.row + house.height;
+  if (!inBounds({ col: house.col, row: house.row }) ||
+      !inBounds({ col: house.col + house.width - 1, row: house.row + house.height - 1 })) {
+    issues.push(at(house, 'ghost house extends outside the grid'));
+  }
+
+  // Tunnels: every T tile belongs to exactly one declared pair, and nothing
+  // else is open at the left and right edges, where entities would wrap.
+  const tunnelEnds = new Map<string, number>();
+  level.tunnels.forEach(([a, b], index) => {
+    for (const end of [a, b]) {
+      if (!inBounds(end)) {
+        issues.push(at(end, 'tunnel end is outside the grid'));
+        continue;
+      }
+      if (grid.getTile(end) !== 'tunnel') {
+        issues.push(at(end, 'tunnel end is not a T tile'));
+      }
+      if (tunnelEnds.has(key(end))) {
+        issues.push(at(end, 'tile is used by more than one tunnel'));
+      }
+      tunnelEnds.set(key(end), index);
+    }
+    const [left, right] = a.col <= b.col ? [a, b] : [b, a];
+    if (a.row !== b.row || left.col !== 0 || right.col !== cols - 1) {
+      issues.push(at(a, `tunnel must join col 0 and col ${cols - 1} on the same row`));
+    }
+  });
+
+  grid.forEachTile((pos, tile) => {
+    if (tile === 'tunnel' && !tunnelEnds.has(key(pos))) {
+      issues.push(at(pos, 'tunnel tile has no matching exit'));
+    }
+    const onEdge = pos.col === 0 || pos.col === cols - 1;
+    if (onEdge && tile !== 'wall' && tile !== 'tunnel') {
+      issues.push(at(pos, 'edge tile is open but not a tunnel'));
+    }
+  });
+
+  if (!inBounds(level.pacmoonSpawn) || !grid.isWalkable(level.pacmoonSpawn)) {
+    return issues;
+  }
+
+  const reachable = floodFill(grid, level.pacmoonSpawn);
+
+  grid.forEachTile((pos, tile) => {
+    if ((tile === 'pellet' || tile === 'power') && !reachable.has(key(pos))) {
+      issues.push(at(pos, `${tile === 'power' ? 'power pellet' : 'pellet'} cannot be reached from the Pacmoon spawn`));
+    }
+  });
+
+  // A usable door sits between the house interior and the reachable maze.
+  for (const door of house.door) {
+    if (!inBounds(door) || grid.getTile(door) !== 'door') {
+      issues.push(at(door, 'door is not a - tile'));
+    }
+  }
+  const doorWorks = house.door.some((door) => {
+    const neighbours = DIR_ORDER.map((dir) => ({
+      col: door.col + DIR_V[dir].x,
+      row: door.row + DIR_V[dir].y
+    }));
+    return neighbours.some(inHouse) && neighbours.some((n) => reachable.has(key(n)));
+  });
+  if (!doorWorks) {
+    issues.push(at(house.door[0] ?? house, 'no door connects the ghost house to the maze'));
+  }
+
+  return issues;
+}
+
+/** Throws InvalidMazeError listing every problem, so broken mazes never load. */
+export function assertValidMaze(level: LevelData, source = level.name): void {
+  const issues = validateMaze(level);
+  if (issues.length > 0) {
+    throw new InvalidMazeError(source, issues);
+  }
+}
@@ -0,0 +1,183 @@
+import type { Dir, TilePos } from '../types';
+import { DIR_ORDER, DIR_V } from '../types';
+import type { MapGrid } from './map-grid';
+
+const UNREACHABLE = 0xffff;
+/** Fields kept per door variant; the least recently used one goes first. */
+const MAX_CACHED_FIELDS = 256;
+
+const WALL = 0;
+const DOOR = 1;
+const OPEN = 2;
+
+const OPPOSITE: Record<Dir, Dir> = {
+  up: 'down',
+  down: 'up',
+  left: 'right',
+  right: 'left',
+  none: 'none'
+};
+
+/**
+ * Ghost pathfinding over precomputed distance fields.
+ *
+ * Each field holds every tile's step count to one target, built by a single
+ * BFS from that target and cached, so picking a direction is a lookup of the
+ * four neighbours. Ghosts that may pass the house door and ghosts that may
+ * not get separate fields. Everything is rebuilt when the grid's walls or
+ * doors change.
+ */
+export class NavigationMap {
+  private readonly grid: MapGrid;
+  private readonly cols: number;
+  private readonly cells: number;
+  /** Neighbour index per cell and DIR_ORDER entry, or -1 off the top or bottom edge. */
+  private readonly neighbors: Int32Array;
+  private passability: Uint8Array;
+  private layoutVersion: number;
+  private readonly fields = [new Map<number, Uint16Array>(), new Map<number, Uint16Array>()];
+  private readonly queue: Int32Array;
+
+  constructor(grid: MapGrid) {
+    this.grid = grid;
+    this.cols = grid.cols;
+    this.cells = grid.cols * grid.rows;
+    this.queue = new Int32Array(this.cells);
+
+    this.neighbors = new Int32Array(this.cells * DIR_ORDER.length);
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.cols; col++) {
+        DIR_ORDER.forEach((dir, i) => {
+          const next = { col: col + DIR_V[dir].x, row: row + DIR_V[dir].y };
+          if (next.row < 0 || next.row >= grid.rows) {
+            this.neighbors[this.index({ col, row }) * 4 + i] = -1;
+            return;
+          }
+          // Horizontal steps wrap, matching MapGrid.getTileWrapped.
+          next.col = (next.col + grid.cols) % grid.cols;
+          this.neighbors[this.index({ col, row }) * 4 + i] = this.index(next);
+        });
+      }
+    }
+
+    this.passability = this.readPassability();
+    this.layoutVersion = grid.getLayoutVersion();
+  }
+
+  private index(pos: TilePos): number {
+    return pos.row * this.cols + pos.col;
+  }
+
+  private readPassability(): Uint8Array {
+    const passability = new Uint8Array(this.cells);
+    this.grid.forEachTile((pos, tile) => {
+      passability[this.index(pos)] = tile === 'wall' ? WALL : tile === 'door' ? DOOR : OPEN;
+    });
+    return passability;
+  }
+
+  /** Drops every cached field if walls or doors changed since they were built. */
+  private refresh(): void {
+    const version = this.grid.getLayoutVersion();
+    if (version === this.layoutVersion) return;
+    this.layoutVersion = version;
+    this.passability = this.readPassability();
+    for (const fields of this.fields) fields.clear();
+  }
+
+  private canEnter(cell: number, canUseDoor: boolean): boolean {
+    const passability = this.passability[cell];
+    return passability === OPEN || (passability === DOOR && canUseDoor);
+  }
+
+  private field(target: number, canUseDoor: boolean): Uint16Array {
+    const cache = this.fields[canUseDoor ? 1 : 0];
+    const cached = cache.get(target);
+    if (cached) {
+      cache.delete(target);
+      cache.set(target, cached);
+      return cached;
+    }
+
+    const field = this.buildField(target, canUseDoor);
+    cache.set(target, field);
+    if (cache.size > MAX_CACHED_FIELDS) {
+      cache.delete(cache.keys().next().value!);
+    }
+    return field;
+  }
+
+  /**
+   * BFS outward from the target. The target itself may be a wall (scatter
+   * corners usually are); the field then leads to the nearest open tile.
+   */
+  private buildField(target: number, canUseDoor: boolean): Uint16Array {
+    const field = new Uint16Array(this.cells).fill(UNREACHABLE);
+    const queue = this.queue;
+    let head = 0;
+    let tail = 0;
+
+    field[target] = 0;
+    queue[tail++] = target;
+
+    while (head < tail) {
+      const cell = queue[head++];
+      const next = field[cell] + 1;
+      for (let i = 0; i < 4; i++) {
+        const neighbor = this.neighbors[cell * 4 + i];
+        if (neighbor < 0 || field[neighbor] !== UNREACHABLE || !this.canEnter(neighbor, canUseDoor)) {
+          continue;
+        }
+        field[neighbor] = next;
+        queue[tail++] = neighbor;
+      }
+    }
+
+    return field;
+  }
+
+  /**
+   * The step from `from` toward `to` that never reverses `currentDir` unless
+   * it has to. Ties go to the earlier direction in DIR_ORDER. With no route at
+   * all it falls back to the first open direction.
+   */
+  nextDir(from: TilePos, to: TilePos, currentDir: Dir, canUseDoor: boolean): Dir {
+    this.refresh();
+
+    const start = this.index(from);
+    const target = this.index({
+      col: Math.max(0, Math.min(this.grid.cols - 1, to.col)),
+      row: Math.max(0, Math.min(this.grid.rows - 1, to.row))
+    });
+    const reverse = OPPOSITE[currentDir];
+
+    if (start !== target) {
+      const field = this.field(target, canUseDoor);
+      let best: Dir = 'none';
+      let bestDistance = UNREACHABLE;
+      DIR_ORDER.forEach((dir, i) => {
+        const neighbor = this.neighbors[start * 4 + i];
+        if (dir === reverse || neighbor < 0 || !this.canEnter(neighbor, canUseDoor)) return;
+        if (field[neighbor] < bestDistance) {
+          best = dir;
+          bestDistance = field[neighbor];
+        }
+      });
+      if (best !== 'none') return best;
+    }
+
+    return this.firstOpenDir(start, reverse, canUseDoor);
+  }
+
+  private firstOpenDir(start: number, reverse: Dir, canUseDoor: boolean): Dir {
+    const open = (i: number) => {
+      const neighbor = this.neighbors[start * 4 + i];
+      return neighbor >= 0 && this.canEnter(neighbor, canUseDoor);
+    };
+
+    const forward = DIR_ORDER.findIndex((dir, i) => dir !== reverse && open(i));
+    if (forward >= 0) return DIR_ORDER[forward];
+    if (reverse !== 'none' && open(DIR_ORDER.indexOf(reverse))) return reverse;
+    return 'none';
+  }
+}
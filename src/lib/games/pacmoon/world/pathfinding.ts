@@ -29,6 +29,50 @@ function tileKey(pos: TilePos): string {
   return `${pos.col},${pos.row}`;
 }
 
+/**
+ * The shortest route Pacmoon can walk from `from` to `to`, through tunnels
+ * and never through walls or the ghost house door. Lists every tile after
+ * `from`, ending on `to`; empty when they are the same tile, null when `to`
+ * cannot be reached.
+ */
+export function findPath(grid: MapGrid, from: TilePos, to: TilePos): TilePos[] | null {
+  if (from.col === to.col && from.row === to.row) return [];
+  if (!grid.isWalkable(to)) return null;
+
+  const parent = new Map<string, TilePos>([[tileKey(from), from]]);
+  const queue: TilePos[] = [from];
+
+  for (let head = 0; head < queue.length; head++) {
+    const cur = queue[head];
+    for (const dir of DIR_ORDER) {
+      const nxt = stepTile(grid, cur, dir);
+      const k = tileKey(nxt);
+      if (parent.has(k) || !grid.isWalkable(nxt)) continue;
+      parent.set(k, cur);
+
+      if (nxt.col === to.col && nxt.row === to.row) {
+        const path = [nxt];
+        for (let step = cur; step !== from; step = parent.get(tileKey(step))!) {
+          path.unshift(step);
+        }
+        return path;
+      }
+      queue.push(nxt);
+    }
+  }
+
+  return null;
+}
+
+/** The direction that steps from `from` onto the neighbouring tile `to`, or 'none' if they are not neighbours. */
+export function dirToNeighbor(grid: MapGrid, from: TilePos, to: TilePos): Dir {
+  for (const dir of DIR_ORDER) {
+    const nxt = stepTile(grid, from, dir);
+    if (nxt.col === to.col && nxt.row === to.row && nxt !== from) return dir;
+  }
+  return 'none';
+}
+
 export function bfsNextDir(args: {
   grid: MapGrid;
   from: TilePos;
@@ -1,3 +1,5 @@
+import { seededRandom } from './seeded-random';
+
 const SYNODIC_MONTH = 29.53058770576;
 const KNOWN_NEW_MOON = Date.UTC(2000, 0, 6, 18, 14);
 
@@ -34,14 +36,6 @@ function getPhaseName(phase: number) {
 	return 'New Moon';
 }
 
-function seededRandom(seed: number) {
-	let s = seed;
-	return () => {
-		s = (s * 16807 + 0) % 2147483647;
-		return s / 2147483647;
-	};
-}
-
 function generateStars({ count, seed }: { count: number; seed: number }): Star[] {
 	const rng = seededRandom(seed);
 	const stars: Star[] = [];
@@ -0,0 +1,16 @@
+/** Park–Miller "minimal standard" generator shared by the star fields and Pacmoon. */
+export const LCG_MULTIPLIER = 16807;
+export const LCG_MODULUS = 2147483647;
+
+export function lcgNext(state: number): number {
+	return (state * LCG_MULTIPLIER) % LCG_MODULUS;
+}
+
+/** Returns a function yielding numbers in (0, 1) from `seed`. */
+export function seededRandom(seed: number) {
+	let s = seed;
+	return () => {
+		s = lcgNext(s);
+		return s / LCG_MODULUS;
+	};
+}
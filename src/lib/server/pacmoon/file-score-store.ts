@@ -0,0 +1,82 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { LeaderboardEntry } from '$lib/games/pacmoon/storage/leaderboard';
+import { compareEntries, type ScoreStore } from './score-store';
+
+/** An entry as kept in the file: the replay hash stays on the server. */
+interface StoredEntry extends LeaderboardEntry {
+	replayHash: string;
+}
+
+function toEntry({ replayHash: _, ...entry }: StoredEntry): LeaderboardEntry {
+	return entry;
+}
+
+function isMissingFile(e: unknown): boolean {
+	return typeof e === 'object' && e !== null && (e as { code?: unknown }).code === 'ENOENT';
+}
+
+/**
+ * Keeps every score in one JSON file, for local development and single-server
+ * hosting. The file is read once and rewritten whole on each add; writes go
+ * through a queue so concurrent submissions can't overwrite each other.
+ */
+export class FileScoreStore implements ScoreStore {
+	private readonly path: string;
+	private entries: Promise<StoredEntry[]> | null = null;
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor(path: string) {
+		this.path = path;
+	}
+
+	async add(entry: LeaderboardEntry, replayHash: string): Promise<boolean> {
+		const write = this.queue.then(async () => {
+			const entries = await this.load();
+			// Checked inside the queue, so two submissions of one replay can't both get in.
+			if (entries.some((stored) => stored.replayHash === replayHash)) return false;
+			entries.push({ ...entry, replayHash });
+			await mkdir(dirname(this.path), { recursive: true });
+			// Write beside the file and swap it in, so a crash never leaves half a table.
+			const temp = `${this.path}.tmp`;
+			await writeFile(temp, JSON.stringify(entries));
+			await rename(temp, this.path);
+			return true;
+		});
+		this.queue = write.catch(() => {});
+		return write;
+	}
+
+	async hasReplay(replayHash: string): Promise<boolean> {
+		const entries = await this.load();
+		return entries.some((entry) => entry.replayHash === replayHash);
+	}
+
+	async list(since: Date | null, limit: number): Promise<LeaderboardEntry[]> {
+		const entries = await this.since(since);
+		return entries.sort(compareEntries).slice(0, limit).map(toEntry);
+	}
+
+	async countAtLeast(score: number, since: Date | null): Promise<number> {
+		const entries = await this.since(since);
+		return entries.filter((entry) => entry.score >= score).length;
+	}
+
+	private async since(since: Date | null): Promise<StoredEntry[]> {
+		const entries = await this.load();
+		const from = since?.toISOString();
+		return from ? entries.filter((entry) => entry.date >= from) : [...entries];
+	}
+
+	private load(): Promise<StoredEntry[]> {
+		this.entries ??= readFile(this.path, 'utf8').then(
+			(text) => JSON.parse(text) as StoredEntry[],
+			(e: unknown) => {
+				if (isMissingFile(e)) return [];
+				this.entries = null;
+				throw e;
+			}
+		);
+		return this.entries;
+	}
+}
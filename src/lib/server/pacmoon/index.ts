@@ -0,0 +1,40 @@
+import { dev } from '$app/environment';
+import { env } from '$env/dynamic/private';
+import { FileScoreStore } from './file-score-store';
+import type { ScoreStore } from './score-store';
+
+export { boardStart, type ScoreStore } from './score-store';
+export { FileScoreStore } from './file-score-store';
+export { readSubmission, verifySubmission, ScoreRejectedError, type CheckedSubmission } from './verify-score';
+export { RateLimiter } from './rate-limit';
+
+/** Used in development only; deployed builds may not be able to write here. */
+const DEV_SCORES_FILE = '.pacmoon/scores.json';
+
+export class ScoreStoreMissingError extends Error {
+	constructor() {
+		super('No score store is configured: set PACMOON_SCORES_FILE to a writable path or call setScoreStore');
+		this.name = 'ScoreStoreMissingError';
+	}
+}
+
+let store: ScoreStore | null = null;
+
+/**
+ * The store the score endpoints use: one installed with setScoreStore, or a
+ * JSON file at PACMOON_SCORES_FILE. Only the dev server falls back to a file
+ * in the project, because hosts such as Vercel have a read-only filesystem;
+ * elsewhere a missing store throws ScoreStoreMissingError.
+ */
+export function getScoreStore(): ScoreStore {
+	if (!store) {
+		const path = env.PACMOON_SCORES_FILE || (dev ? DEV_SCORES_FILE : null);
+		if (!path) throw new ScoreStoreMissingError();
+		store = new FileScoreStore(path);
+	}
+	return store;
+}
+
+export function setScoreStore(next: ScoreStore): void {
+	store = next;
+}
@@ -0,0 +1,35 @@
+/**
+ * Allows each key at most `limit` hits per `windowMs`, counted over a sliding
+ * window. Kept in memory, so it only holds per server process.
+ */
+export class RateLimiter {
+	private readonly limit: number;
+	private readonly windowMs: number;
+	private readonly hits = new Map<string, number[]>();
+
+	constructor(limit: number, windowMs: number) {
+		this.limit = limit;
+		this.windowMs = windowMs;
+	}
+
+	/** Records a hit for `key` and returns false if it is over the limit. */
+	take(key: string, now: number): boolean {
+		const since = now - this.windowMs;
+		const recent = (this.hits.get(key) ?? []).filter((time) => time > since);
+		if (recent.length >= this.limit) {
+			this.hits.set(key, recent);
+			return false;
+		}
+		recent.push(now);
+		this.hits.set(key, recent);
+		this.prune(since);
+		return true;
+	}
+
+	/** Forgets clients with no hits left in the window, so the map stays small. */
+	private prune(since: number): void {
+		for (const [key, times] of this.hits) {
+			if (times[times.length - 1] <= since) this.hits.delete(key);
+		}
+	}
+}
@@ -0,0 +1,36 @@
+import type { Board, LeaderboardEntry } from '$lib/games/pacmoon/storage/leaderboard';
+
+/**
+ * Where accepted scores live. Implementations only store and query; scores
+ * are checked before they get here.
+ */
+export interface ScoreStore {
+	/**
+	 * Stores the entry with the hash of the replay that earned it. Returns
+	 * false, storing nothing, if that replay was already stored.
+	 */
+	add(entry: LeaderboardEntry, replayHash: string): Promise<boolean>;
+	hasReplay(replayHash: string): Promise<boolean>;
+	/** Best first, equal scores oldest first, counting only entries from `since` on. */
+	list(since: Date | null, limit: number): Promise<LeaderboardEntry[]>;
+	/** How many entries from `since` on scored at least `score`. */
+	countAtLeast(score: number, since: Date | null): Promise<number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of the board's current period; boards roll over in UTC, like the daily maze. */
+export function boardStart(board: Board, now: Date): Date | null {
+	if (board === 'all') return null;
+
+	const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+	if (board === 'daily') return new Date(midnight);
+
+	// Weeks start on Monday.
+	const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+	return new Date(midnight - daysSinceMonday * DAY_MS);
+}
+
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+	return b.score - a.score || a.date.localeCompare(b.date);
+}
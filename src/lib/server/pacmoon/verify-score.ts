@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto';
+import { FRAME_MS } from '$lib/games/pacmoon/engine/config';
+import {
+	decodeInputStream,
+	encodeInputStream,
+	parseReplay,
+	ReplayFormatError,
+	type ReplayFile
+} from '$lib/games/pacmoon/engine/replay';
+import { ReplayPlayer } from '$lib/games/pacmoon/engine/replay-player';
+import { dailySeed } from '$lib/games/pacmoon/world/maze-generator';
+import { INITIALS_LENGTH } from '$lib/games/pacmoon/storage/high-scores';
+import type { LeaderboardEntry } from '$lib/games/pacmoon/storage/leaderboard';
+
+/**
+ * Longest game the server will re-simulate: 30 minutes of play, which a
+ * strong classic game rarely reaches. Checking runs on the request thread,
+ * so this also bounds how long one submission can hold it.
+ */
+const MAX_REPLAY_TICKS = Math.ceil((30 * 60 * 1000) / FRAME_MS);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIALS_PATTERN = new RegExp(`^[A-Z]{${INITIALS_LENGTH}}$`);
+
+export class ScoreRejectedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ScoreRejectedError';
+	}
+}
+
+/** A submission that passed the cheap checks, ready for verifySubmission. */
+export interface CheckedSubmission {
+	initials: string;
+	score: number;
+	replay: ReplayFile;
+	/** Identifies the game played, so the same replay can't be ranked twice. */
+	replayHash: string;
+}
+
+/** Runs `read`, turning a malformed replay into a rejection. */
+function rejectFormatErrors<T>(read: () => T): T {
+	try {
+		return read();
+	} catch (e) {
+		if (e instanceof ReplayFormatError) throw new ScoreRejectedError(e.message);
+		throw e;
+	}
+}
+
+/**
+ * Hashes the replay as it plays out up to `ticks`, where verifySubmission
+ * requires the game to end. Input on that last tick can't change anything,
+ * so it is left out; otherwise padding a finished game would pass as a new one.
+ */
+function hashReplay(replay: ReplayFile, codes: Uint8Array): string {
+	const { version, seed, mode, ghostDifficulty, ticks } = replay;
+	const intents = replay.intents.filter(([tick]) => tick < ticks);
+	const input = encodeInputStream(codes.subarray(0, ticks));
+	const fields = [version, seed, mode, ghostDifficulty, ticks, intents, input];
+	return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+/**
+ * Validates a submission's shape and the replay's seed and length without
+ * running it. Games resumed from a save are refused, because the save they
+ * started from could say anything.
+ */
+export function readSubmission(body: unknown, now: Date): CheckedSubmission {
+	if (typeof body !== 'object' || body === null) {
+		throw new ScoreRejectedError('Submission must be a JSON object');
+	}
+	const { initials, score, replay: rawReplay } = body as Record<string, unknown>;
+
+	if (typeof initials !== 'string' || !INITIALS_PATTERN.test(initials)) {
+		throw new ScoreRejectedError(`Initials must be ${INITIALS_LENGTH} letters A-Z`);
+	}
+	if (typeof score !== 'number' || !Number.isInteger(score) || score <= 0) {
+		throw new ScoreRejectedError('Score must be a positive whole number');
+	}
+
+	const replay = rejectFormatErrors(() => parseReplay(JSON.stringify(rawReplay)));
+	if (replay.start) {
+		throw new ScoreRejectedError('Games resumed from a save cannot be ranked');
+	}
+	if (replay.ticks > MAX_REPLAY_TICKS) {
+		throw new ScoreRejectedError('Replay is too long to check');
+	}
+	// Decoded here, once the length is known to be sane, so a broken stream
+	// is refused instead of failing inside the simulation.
+	const codes = rejectFormatErrors(() => decodeInputStream(replay.input, replay.ticks));
+	if (replay.intents.some(([tick]) => tick > replay.ticks)) {
+		throw new ScoreRejectedError('Replay has input after it ends');
+	}
+	// A daily game may have started just before midnight UTC.
+	if (replay.mode === 'daily' && ![now, new Date(now.getTime() - DAY_MS)].some((day) => dailySeed(day) === replay.seed)) {
+		throw new ScoreRejectedError("Replay is not from today's daily maze");
+	}
+
+	return { initials, score, replay, replayHash: hashReplay(replay, codes) };
+}
+
+/**
+ * Checks a submitted score by playing its replay through from the start and
+ * returns the entry to store. The replay has to reach game over on exactly
+ * its last tick, with exactly the claimed score.
+ */
+export function verifySubmission(submission: CheckedSubmission, now: Date): LeaderboardEntry {
+	const { initials, score, replay } = submission;
+
+	const player = new ReplayPlayer(replay);
+	while (player.step()) {
+		// run to the end
+	}
+	const hud = player.getSimulation().getHud();
+	if (hud.phase !== 'game_over') {
+		throw new ScoreRejectedError('Replay does not end in game over');
+	}
+	if (player.getTick() !== replay.ticks) {
+		throw new ScoreRejectedError('Replay runs on past game over');
+	}
+	if (hud.score !== score) {
+		throw new ScoreRejectedError(`Replay scores ${hud.score}, not ${score}`);
+	}
+
+	return { initials, score, level: hud.level, mode: replay.mode, date: now.toISOString() };
+}
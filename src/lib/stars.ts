@@ -1,3 +1,5 @@
+import { seededRandom } from './seeded-random';
+
 export interface Star {
 	x: number;
 	y: number;
@@ -5,14 +7,6 @@ export interface Star {
 	opacity: number;
 }
 
-function seededRandom(seed: number) {
-	let s = seed;
-	return () => {
-		s = (s * 16807 + 0) % 2147483647;
-		return s / 2147483647;
-	};
-}
-
 export function generateStars({ count, seed }: { count: number; seed: number }): Star[] {
 	const rng = seededRandom(seed);
 	const stars: Star[] = [];
@@ -0,0 +1,98 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	boardStart,
+	getScoreStore,
+	RateLimiter,
+	readSubmission,
+	ScoreRejectedError,
+	ScoreStoreMissingError,
+	verifySubmission,
+	type ScoreStore
+} from '$lib/server/pacmoon';
+import {
+	BOARDS,
+	LEADERBOARD_LIMIT,
+	type Board,
+	type LeaderboardEntry,
+	type SubmitResult
+} from '$lib/games/pacmoon/storage/leaderboard';
+
+// Each check re-simulates a whole game, so one client gets a few a minute.
+const submissions = new RateLimiter(5, 60 * 1000);
+
+const ALREADY_SUBMITTED = 'This game has already been submitted';
+
+/** The configured store, or a 503 saying the leaderboard isn't set up. */
+function scoreStore(): ScoreStore {
+	try {
+		return getScoreStore();
+	} catch (e) {
+		if (e instanceof ScoreStoreMissingError) {
+			console.error('[pacmoon]', e.message);
+			error(503, 'The leaderboard is not available on this server');
+		}
+		throw e;
+	}
+}
+
+function isBoard(value: string | null): value is Board {
+	return BOARDS.includes(value as Board);
+}
+
+/** GET ?board=daily|weekly|all — the board's top entries, best first. */
+export const GET: RequestHandler = async ({ url }) => {
+	const board = url.searchParams.get('board') ?? 'all';
+	if (!isBoard(board)) {
+		error(400, `Unknown board ${board}`);
+	}
+
+	const entries = await scoreStore().list(boardStart(board, new Date()), LEADERBOARD_LIMIT);
+	return json(entries);
+};
+
+/**
+ * POST a ScoreSubmission; the replay is re-simulated before the score is
+ * ranked, and a replay that was already ranked is refused.
+ */
+export const POST: RequestHandler = async ({ request, getClientAddress }) => {
+	if (!submissions.take(getClientAddress(), Date.now())) {
+		error(429, 'Too many submissions, try again in a minute');
+	}
+
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		error(400, 'Submission is not valid JSON');
+	}
+
+	const now = new Date();
+	const store = scoreStore();
+	let entry: LeaderboardEntry;
+	try {
+		const submission = readSubmission(body, now);
+		// Checked before re-simulating too, so resending a replay costs nothing.
+		if (await store.hasReplay(submission.replayHash)) {
+			error(409, ALREADY_SUBMITTED);
+		}
+		entry = verifySubmission(submission, now);
+		if (!(await store.add(entry, submission.replayHash))) {
+			error(409, ALREADY_SUBMITTED);
+		}
+	} catch (e) {
+		if (e instanceof ScoreRejectedError) error(422, e.message);
+		throw e;
+	}
+
+	// The new entry counts itself and sits below older equal scores.
+	const rankOn = async (board: Board) => (await store.countAtLeast(entry.score, boardStart(board, now))) - 1;
+	const ranks: Record<Board, number> = {
+		daily: await rankOn('daily'),
+		weekly: await rankOn('weekly'),
+		all: await rankOn('all')
+	};
+
+	const result: SubmitResult = { entry, ranks };
+	return json(result, { status: 201 });
+};